@@ -1,204 +1,196 @@
 "use server";
 
-import { fetchGitHubData } from "@/lib/github";
-import { analyzeProfile } from "@/lib/gemini";
 import { checkRateLimit } from "@/lib/rate-limit";
 import { headers } from "next/headers";
-import type { AnalysisResponse } from "@/lib/types";
+import { runAnalysis } from "@/lib/analysis";
+import { getHistory } from "@/lib/history";
+import { fetchOrgMembers } from "@/lib/github";
+import { createBatchJob, getBatchJob } from "@/lib/batch-queue";
+import { MAX_BATCH_USERS, parseUsernameList } from "@/lib/batch";
+import { revokeSnapshot, saveSnapshot, SHARE_EXPIRY_DAYS } from "@/lib/snapshots";
+import { parseRepoSelection } from "@/lib/repo-selection";
+import { normalizeRole } from "@/lib/roles";
+import type {
+    AnalysisResponse,
+    BatchJob,
+    BatchSource,
+    BatchStartResponse,
+    RoleProfile,
+    ShareLinkResponse,
+    TrendPoint,
+} from "@/lib/types";
 import { extractUsername } from "@/lib/utils";
+import { MAX_COMPARE_USERS, MIN_COMPARE_USERS, parseCompareUsers } from "@/lib/compare";
 
 // ============================================
 // Server Action: The Connector
 // ============================================
-
-// --- IN-MEMORY CACHE ---
-// Caches successful analysis results keyed by lowercase username.
-// Each entry has a TTL (time-to-live) of 10 minutes.
-// This prevents redundant API calls for the same profile.
-const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
-
-interface CacheEntry {
-    response: AnalysisResponse;
-    timestamp: number;
-}
-
-const analysisCache = new Map<string, CacheEntry>();
-
-function getCachedResult(username: string): AnalysisResponse | null {
-    const key = username.toLowerCase();
-    const entry = analysisCache.get(key);
-
-    if (!entry) return null;
-
-    // Check if expired
-    if (Date.now() - entry.timestamp > CACHE_TTL_MS) {
-        analysisCache.delete(key);
-        console.log(`[Cache] Expired for: ${key}`);
-        return null;
-    }
-
-    console.log(`[Cache] HIT for: ${key} (age: ${Math.round((Date.now() - entry.timestamp) / 1000)}s)`);
-    return entry.response;
-}
-
-function setCachedResult(username: string, response: AnalysisResponse): void {
-    const key = username.toLowerCase();
-    analysisCache.set(key, { response, timestamp: Date.now() });
-    console.log(`[Cache] STORED for: ${key} (total cached: ${analysisCache.size})`);
-}
+// Rate-limited entry points; the pipeline itself lives in @/lib/analysis.
 
 /**
- * Main pipeline: Rate Limit → Cache → GitHub Data → AI Analysis → Response
+ * Resolves the caller's IP and applies the rate limit.
+ * Returns an error response when blocked, null when allowed.
  */
-export async function performAnalysis(
-    username: string
-): Promise<AnalysisResponse> {
-    // --- Rate Limit Check ---
+async function enforceRateLimit(): Promise<AnalysisResponse | null> {
     const headersList = await headers();
     const clientIP =
         headersList.get("x-forwarded-for")?.split(",")[0]?.trim() ||
         headersList.get("x-real-ip") ||
         "anonymous";
 
-    const rateLimitResult = checkRateLimit(clientIP);
+    const rateLimitResult = await checkRateLimit(clientIP);
     if (!rateLimitResult.allowed) {
         const retrySeconds = Math.ceil((rateLimitResult.retryAfterMs || 0) / 1000);
         console.warn(`[RateLimit] BLOCKED: ${clientIP} (retry in ${retrySeconds}s)`);
         return {
             success: false,
             error: `Too many requests. Please wait ${retrySeconds} seconds before trying again.`,
+            errorCode: "rate_limited",
+            status: 429,
+            retryAt: new Date(Date.now() + (rateLimitResult.retryAfterMs || 0)).toISOString(),
         };
     }
     console.log(`[RateLimit] OK: ${clientIP} (${rateLimitResult.remaining} remaining)`);
+    return null;
+}
 
-    // --- Input Validation ---
+/**
+ * Main pipeline: Rate Limit → Cache → GitHub Data → AI Analysis → Response
+ * `repos` restricts the analysis to those repositories (empty = automatic selection).
+ */
+export async function performAnalysis(
+    username: string,
+    role: RoleProfile | null = null,
+    repos: string[] = []
+): Promise<AnalysisResponse> {
+    const blocked = await enforceRateLimit();
+    if (blocked) return blocked;
 
-    // Sanitize input to handle full URLs or raw usernames
-    const cleanUsername = extractUsername(username);
+    return runAnalysis(username, role, repos);
+}
 
-    if (!cleanUsername) {
-        return {
-            success: false,
-            error: "Please enter a valid GitHub username or profile URL.",
-        };
+/**
+ * Runs the pipeline for several candidates side by side.
+ * Counts as a single request against the rate limit; each username
+ * still goes through the cache. Results keep the input order.
+ */
+export async function performComparison(
+    usernames: string[],
+    role: RoleProfile | null = null
+): Promise<AnalysisResponse[]> {
+    const unique = parseCompareUsers(usernames);
+
+    if (unique.length < MIN_COMPARE_USERS || unique.length > MAX_COMPARE_USERS) {
+        throw new Error(
+            `Please provide between ${MIN_COMPARE_USERS} and ${MAX_COMPARE_USERS} usernames to compare.`
+        );
     }
 
-    const trimmedUsername = cleanUsername;
+    const blocked = await enforceRateLimit();
+    if (blocked) return unique.map(() => blocked);
 
-    // Basic GitHub username validation (alphanumeric + hyphens, 1-39 chars)
-    // Double check just in case extractUsername missed something specific or if logic differs
-    // extractUsername already executes regex validation, so this is just a safeguard
-    if (trimmedUsername.length > 39) {
-        return {
-            success: false,
-            error: "Username is too long.",
-        };
-    }
+    return Promise.all(unique.map((username) => runAnalysis(username, role, [])));
+}
 
-    // --- Step 0: Check Cache ---
-    const cached = getCachedResult(trimmedUsername);
-    if (cached) {
-        return cached;
-    }
+/**
+ * Returns the user's recorded scans as trend points, oldest first.
+ */
+export async function getScoreHistory(username: string): Promise<TrendPoint[]> {
+    const cleanUsername = extractUsername(username);
+    if (!cleanUsername) return [];
+    return getHistory(cleanUsername);
+}
 
-    try {
-        // --- Step 1: Fetch GitHub Data ---
-        console.log(`[Analysis] Fetching GitHub data for: ${trimmedUsername}`);
-        const profileData = await fetchGitHubData(trimmedUsername);
-
-        // --- Step 2: Run AI Analysis ---
-        console.log(`[Analysis] Running AI analysis for: ${trimmedUsername}`);
-        const analysisResult = await analyzeProfile(profileData);
-
-        // --- Step 3: Return Combined Result ---
-        console.log(`[Analysis] Complete for: ${trimmedUsername}`);
-        const response: AnalysisResponse = {
-            success: true,
-            data: analysisResult,
-            profileData,
-        };
 
-        // Cache successful result — but NOT mock/fallback data
-        if (!analysisResult.isMockData) {
-            setCachedResult(trimmedUsername, response);
-        } else {
-            console.log(`[Cache] SKIPPED mock data for: ${trimmedUsername}`);
+/**
+ * Starts a batch analysis of an organization's members or an uploaded
+ * username list (CSV or pasted). Counts as a single request against the
+ * rate limit; the queue then paces GitHub and AI calls itself.
+ */
+export async function startBatch(input: { org?: string; list?: string }): Promise<BatchStartResponse> {
+    const blocked = await enforceRateLimit();
+    if (blocked) return { success: false, error: blocked.error };
+
+    let source: BatchSource;
+    let usernames: string[];
+    let skipped = 0;
+
+    if (input.org?.trim()) {
+        const org = extractUsername(input.org);
+        if (!org) {
+            return { success: false, error: "Please enter a valid GitHub organization name or URL." };
         }
-
-        return response;
-    } catch (error) {
-        console.error(`[Analysis] Error for ${trimmedUsername}:`, error);
-
-        // Provide user-friendly error messages
-        const message =
-            error instanceof Error ? error.message.toLowerCase() : "";
-
-        // GitHub: User not found
-        if (message.includes("not found") && !message.includes("model")) {
+        try {
+            usernames = await fetchOrgMembers(org, MAX_BATCH_USERS);
+        } catch (error) {
+            const err = error as { status?: number };
+            console.error(`[Batch] Failed to list members of ${org}:`, error);
             return {
                 success: false,
-                error: `GitHub user "${trimmedUsername}" not found. Please check the username and try again.`,
+                error: err.status === 404
+                    ? `GitHub organization "${org}" not found.`
+                    : "Could not list the organization's members. Please try again in a moment.",
             };
         }
-
-        // GitHub: Rate limit
-        if (
-            message.includes("rate limit") &&
-            !message.includes("quota")
-        ) {
-            return {
-                success: false,
-                error:
-                    "GitHub API rate limit reached. Please try again in a few minutes.",
-            };
+        if (usernames.length === 0) {
+            return { success: false, error: `"${org}" has no members visible to this app.` };
         }
-
-        // GitHub: Bad credentials
-        if (message.includes("bad credentials")) {
-            return {
-                success: false,
-                error:
-                    "GitHub token is invalid. Please check your GITHUB_TOKEN in .env.local.",
-            };
+        source = { type: "org", org };
+    } else {
+        ({ usernames, skipped } = parseUsernameList(input.list ?? ""));
+        if (usernames.length === 0) {
+            return { success: false, error: "No valid GitHub usernames found in the list." };
         }
+        source = { type: "list" };
+    }
 
-        // AI: Missing API key
-        if (message.includes("openrouter_api_key")) {
-            return {
-                success: false,
-                error:
-                    "AI service is not configured. Please add OPENROUTER_API_KEY to .env.local.",
-            };
-        }
+    const job = createBatchJob(source, usernames);
+    return { success: true, batchId: job.id, skipped };
+}
 
-        // Gemini: Quota / Rate limit (429)
-        if (
-            message.includes("429") ||
-            message.includes("quota") ||
-            message.includes("too many requests") ||
-            message.includes("resource exhausted")
-        ) {
-            return {
-                success: false,
-                error:
-                    "AI service rate limit reached. Please wait 1-2 minutes and try again. (Free tier has limited requests per minute.)",
-            };
-        }
+/**
+ * Returns a batch job's current state, or null if unknown or expired.
+ */
+export async function getBatch(id: string): Promise<BatchJob | null> {
+    return getBatchJob(id);
+}
 
-        // Gemini: Model not found
-        if (message.includes("model") && message.includes("not found")) {
-            return {
-                success: false,
-                error:
-                    "AI model configuration error. Please contact the administrator.",
-            };
-        }
+/**
+ * "Save & share": freezes the report for this username/role/selection as
+ * a snapshot under an unguessable id. Goes through the rate limit and the
+ * cache like the report page, so it normally saves what the user is seeing.
+ */
+export async function createShareLink(
+    username: string,
+    role: RoleProfile | null,
+    repos: string[],
+    expiresInDays: number | null
+): Promise<ShareLinkResponse> {
+    if (expiresInDays !== null && !SHARE_EXPIRY_DAYS.includes(expiresInDays)) {
+        return { success: false, error: "Unsupported expiry." };
+    }
 
-        // Generic fallback — don't leak raw error messages
-        return {
-            success: false,
-            error:
-                "An unexpected error occurred during analysis. Please try again in a moment.",
-        };
+    const result = await performAnalysis(username, role, repos);
+    if (!result.success || !result.data || !result.profileData) {
+        return { success: false, error: result.error };
+    }
+    if (result.data.isMockData) {
+        return { success: false, error: "Demo data can't be shared." };
+    }
+
+    try {
+        const { snapshot, revokeToken } = await saveSnapshot(result, normalizeRole(role), parseRepoSelection(repos), expiresInDays);
+        return { success: true, id: snapshot.id, revokeToken, expiresAt: snapshot.expiresAt };
+    } catch (error) {
+        console.error(`[Snapshot] Failed to save for ${username}:`, error);
+        return { success: false, error: "Could not save the report. Please try again." };
     }
 }
+
+/**
+ * Revokes a shared link. Needs the token returned by createShareLink.
+ */
+export async function revokeShareLink(id: string, revokeToken: string): Promise<{ success: boolean; error?: string }> {
+    const revoked = await revokeSnapshot(id, revokeToken);
+    return revoked ? { success: true } : { success: false, error: "Link not found or not yours to revoke." };
+}
@@ -0,0 +1,26 @@
+import { runAnalysis } from "@/lib/analysis";
+import { analysisStatus, apiResponse, authorizeApiRequest } from "@/lib/api";
+import { parseRepoSelection } from "@/lib/repo-selection";
+import { roleFromSearchParams } from "@/lib/roles";
+import { extractUsername } from "@/lib/utils";
+import { notifyAnalysisComplete } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/v1/analysis/{username} — one analysis as an AnalysisResponse.
+ * Accepts the report page's query (role, level, title, skills, repos).
+ * Failures respond with their HTTP status and `{ success: false, error, status }`.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ username: string }> }) {
+    const auth = await authorizeApiRequest(request);
+    if (auth.error) return auth.error;
+
+    const { username } = await params;
+    const query = Object.fromEntries(new URL(request.url).searchParams);
+    const response = await runAnalysis(username, roleFromSearchParams(query), parseRepoSelection(query.repos));
+    notifyAnalysisComplete(auth.client.name, extractUsername(username) ?? username, response);
+
+    console.log(`[API] ${auth.client.name}: analysis of ${username} → ${analysisStatus(response)}`);
+    return apiResponse(response, analysisStatus(response), auth.rateLimit);
+}
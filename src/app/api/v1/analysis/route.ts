@@ -0,0 +1,91 @@
+import { runAnalysis } from "@/lib/analysis";
+import {
+    analysisStatus,
+    apiError,
+    apiResponse,
+    authenticateApiRequest,
+    chargeApiRequest,
+    MAX_API_BATCH_USERS,
+} from "@/lib/api";
+import { roleFromSearchParams } from "@/lib/roles";
+import type { ApiBatchResponse } from "@/lib/types";
+import { extractUsername } from "@/lib/utils";
+import { notifyAnalysisComplete } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+interface BatchRequestBody {
+    usernames?: unknown;
+    role?: unknown;
+    level?: unknown;
+    title?: unknown;
+    skills?: unknown;
+}
+
+/** Accepts a string or an array of strings (skills may be either). */
+function stringParam(value: unknown): string | undefined {
+    if (typeof value === "string") return value;
+    if (Array.isArray(value) && value.every((v) => typeof v === "string")) return value.join(",");
+    return undefined;
+}
+
+/**
+ * POST /api/v1/analysis — analyzes up to MAX_API_BATCH_USERS usernames.
+ * Body: `{ usernames: string[], role?, level?, title?, skills? }` (role
+ * fields as on the report URL). Each user counts against the key's rate
+ * limit. Responds 200 with an ApiBatchResponse; each result carries the
+ * status its single-user request would have had.
+ */
+export async function POST(request: Request) {
+    // Key first: unauthenticated callers learn nothing about the body rules.
+    // The rate limit is charged once the number of users is known.
+    const authentication = authenticateApiRequest(request);
+    if (authentication.error) return authentication.error;
+
+    let body: BatchRequestBody;
+    try {
+        body = await request.json();
+    } catch {
+        return apiError(400, "Request body must be JSON.");
+    }
+
+    const usernames = Array.isArray(body?.usernames) ? body.usernames : null;
+    if (!usernames || usernames.length === 0 || usernames.some((u) => typeof u !== "string")) {
+        return apiError(400, "\"usernames\" must be a non-empty array of GitHub usernames or profile URLs.");
+    }
+    if (usernames.length > MAX_API_BATCH_USERS) {
+        return apiError(400, `At most ${MAX_API_BATCH_USERS} usernames per request.`);
+    }
+    const invalid = usernames.filter((u: string) => !extractUsername(u));
+    if (invalid.length > 0) {
+        return apiError(400, `Invalid GitHub usernames: ${invalid.join(", ")}.`);
+    }
+
+    // Duplicates (including URL vs. raw username) are analyzed and charged once
+    const unique = [...new Map(usernames.map((u: string): [string, string] => {
+        const username = extractUsername(u)!;
+        return [username.toLowerCase(), username];
+    })).values()];
+
+    const auth = await chargeApiRequest(authentication.client, unique.length);
+    if (auth.error) return auth.error;
+
+    const role = roleFromSearchParams({
+        role: stringParam(body.role),
+        level: stringParam(body.level),
+        title: stringParam(body.title),
+        skills: stringParam(body.skills),
+    });
+
+    const results = await Promise.all(
+        unique.map(async (username) => {
+            const response = await runAnalysis(username, role, []);
+            notifyAnalysisComplete(auth.client.name, username, response);
+            return { username, status: analysisStatus(response), response };
+        })
+    );
+
+    console.log(`[API] ${auth.client.name}: batch of ${results.length} (${results.filter((r) => r.status === 200).length} ok)`);
+    const payload: ApiBatchResponse = { success: true, results };
+    return apiResponse(payload, 200, auth.rateLimit);
+}
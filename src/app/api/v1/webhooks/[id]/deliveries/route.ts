@@ -0,0 +1,20 @@
+import { apiError, apiResponse, authorizeApiRequest } from "@/lib/api";
+import { getWebhookDeliveries } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/v1/webhooks/{id}/deliveries — the webhook's delivery log,
+ * newest first, with every attempt's status code or error.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const auth = await authorizeApiRequest(request);
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    const deliveries = getWebhookDeliveries(auth.client.name, id);
+    if (!deliveries) {
+        return apiError(404, "Webhook not found.", auth.rateLimit);
+    }
+    return apiResponse({ success: true, deliveries }, 200, auth.rateLimit);
+}
@@ -0,0 +1,18 @@
+import { apiError, apiResponse, authorizeApiRequest } from "@/lib/api";
+import { deleteWebhook } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * DELETE /api/v1/webhooks/{id} — unregisters a webhook. Pending retries are dropped.
+ */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const auth = await authorizeApiRequest(request);
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    if (!deleteWebhook(auth.client.name, id)) {
+        return apiError(404, "Webhook not found.", auth.rateLimit);
+    }
+    return apiResponse({ success: true }, 200, auth.rateLimit);
+}
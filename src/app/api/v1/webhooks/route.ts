@@ -0,0 +1,77 @@
+import { apiError, apiResponse, authorizeApiRequest } from "@/lib/api";
+import { extractUsername } from "@/lib/utils";
+import {
+    checkWebhookUrl,
+    createWebhook,
+    listWebhooks,
+    MAX_WEBHOOK_USERNAMES,
+    MIN_SECRET_LENGTH,
+    parseWebhookUrl,
+} from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+interface CreateWebhookBody {
+    url?: unknown;
+    secret?: unknown;
+    usernames?: unknown;
+}
+
+/**
+ * GET /api/v1/webhooks — the API key's webhooks.
+ */
+export async function GET(request: Request) {
+    const auth = await authorizeApiRequest(request);
+    if (auth.error) return auth.error;
+
+    return apiResponse({ success: true, webhooks: listWebhooks(auth.client.name) }, 200, auth.rateLimit);
+}
+
+/**
+ * POST /api/v1/webhooks — registers a webhook.
+ * Body: `{ url, secret, usernames? }`. Delivers analyses requested with
+ * this API key; `usernames` limits them to those users. Responds 201 with the webhook (without the secret).
+ */
+export async function POST(request: Request) {
+    const auth = await authorizeApiRequest(request);
+    if (auth.error) return auth.error;
+
+    let body: CreateWebhookBody;
+    try {
+        body = await request.json();
+    } catch {
+        return apiError(400, "Request body must be JSON.", auth.rateLimit);
+    }
+
+    const url = typeof body?.url === "string" ? parseWebhookUrl(body.url) : null;
+    if (!url) {
+        return apiError(400, "\"url\" must be an absolute http(s) URL.", auth.rateLimit);
+    }
+    const blocked = await checkWebhookUrl(url);
+    if (blocked) {
+        return apiError(400, `"url" must point to a public host (${blocked}).`, auth.rateLimit);
+    }
+    if (typeof body.secret !== "string" || body.secret.length < MIN_SECRET_LENGTH) {
+        return apiError(400, `"secret" must be a string of at least ${MIN_SECRET_LENGTH} characters.`, auth.rateLimit);
+    }
+
+    let usernames: string[] | null = null;
+    if (body.usernames !== undefined && body.usernames !== null) {
+        const raw = Array.isArray(body.usernames) ? body.usernames : null;
+        const parsed = raw?.map((u) => (typeof u === "string" ? extractUsername(u) : null));
+        if (!parsed || parsed.length === 0 || parsed.length > MAX_WEBHOOK_USERNAMES || parsed.some((u) => !u)) {
+            return apiError(
+                400,
+                `"usernames" must be an array of 1-${MAX_WEBHOOK_USERNAMES} GitHub usernames or profile URLs.`,
+                auth.rateLimit
+            );
+        }
+        usernames = parsed as string[];
+    }
+
+    const webhook = createWebhook(auth.client.name, url, body.secret, usernames);
+    if (!webhook) {
+        return apiError(409, "Webhook limit reached for this API key. Delete one first.", auth.rateLimit);
+    }
+    return apiResponse({ success: true, webhook }, 201, auth.rateLimit);
+}
@@ -0,0 +1,60 @@
+import { getLatestAnalysis } from "@/lib/analysis";
+import { BADGE_COLORS, STALE_AFTER_DAYS, badgeColor, badgeLabel, renderBadge, type Badge } from "@/lib/badge";
+import { DIMENSION_KEYS } from "@/lib/schema";
+import type { DimensionKey } from "@/lib/types";
+import { extractUsername } from "@/lib/utils";
+
+// --- CONFIG ---
+const CACHE_CONTROL = "public, max-age=3600, stale-while-revalidate=86400";
+const MISSING_CACHE_CONTROL = "public, max-age=300"; // Pick up the first scan quickly
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /badge/{username}?dimension=impact — SVG score badge for READMEs.
+ * Built from the cached or last recorded result only (see
+ * getLatestAnalysis), so embedding it never triggers an analysis.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ username: string }> }) {
+    const { username } = await params;
+    const login = extractUsername(username);
+    if (!login || login.length > 39) {
+        return new Response("Invalid username.", { status: 400 });
+    }
+
+    const requestedDimension = new URL(request.url).searchParams.get("dimension");
+    if (requestedDimension && !DIMENSION_KEYS.includes(requestedDimension as DimensionKey)) {
+        return new Response(`Unknown dimension. Use one of: ${DIMENSION_KEYS.join(", ")}.`, { status: 400 });
+    }
+    const dimension = requestedDimension as DimensionKey | null;
+    const label = badgeLabel(dimension);
+
+    const latest = await getLatestAnalysis(login, null);
+    const { data, profileData } = latest ?? {};
+
+    let badge: Badge;
+    if (!data || !profileData || data.isMockData) {
+        badge = { label, message: "not analyzed", color: BADGE_COLORS.grey };
+    } else {
+        const ageDays = (Date.now() - Date.parse(profileData.fetchedAt)) / (24 * 60 * 60 * 1000);
+        const stale = ageDays > STALE_AFTER_DAYS;
+        const message = dimension ? `${data.dimensions[dimension].score}/10` : `${data.total_score}/100`;
+        badge = {
+            label,
+            message: stale ? `${message} (stale)` : message,
+            color: stale
+                ? BADGE_COLORS.grey
+                : dimension
+                    ? badgeColor(data.dimensions[dimension].score, 10)
+                    : badgeColor(data.total_score, 100),
+            title: `${label}: ${message}, last analyzed ${profileData.fetchedAt.slice(0, 10)}`,
+        };
+    }
+
+    return new Response(renderBadge(badge), {
+        headers: {
+            "Content-Type": "image/svg+xml; charset=utf-8",
+            "Cache-Control": data ? CACHE_CONTROL : MISSING_CACHE_CONTROL,
+        },
+    });
+}
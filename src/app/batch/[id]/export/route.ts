@@ -0,0 +1,21 @@
+import { getBatchJob } from "@/lib/batch-queue";
+import { batchToCsv } from "@/lib/batch";
+
+/**
+ * GET /batch/{id}/export — the batch leaderboard as a CSV download.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const job = getBatchJob(id);
+    if (!job) {
+        return new Response("Batch not found or expired.", { status: 404 });
+    }
+
+    const name = job.source.type === "org" ? job.source.org : "batch";
+    return new Response(batchToCsv(job, new URL(request.url).origin), {
+        headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${name}-leaderboard.csv"`,
+        },
+    });
+}
@@ -0,0 +1,119 @@
+import Link from "next/link";
+import { getBatch } from "@/app/actions";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { BatchLeaderboard } from "@/components/batch-leaderboard";
+import { BatchAutoRefresh } from "@/components/batch-auto-refresh";
+import { batchProgress } from "@/lib/batch";
+import { AlertTriangle, ArrowLeft, Clock, Download, Trophy } from "lucide-react";
+
+interface BatchResultPageProps {
+    params: Promise<{ id: string }>;
+}
+
+export default async function BatchResultPage({ params }: BatchResultPageProps) {
+    const { id } = await params;
+    const job = await getBatch(id);
+
+    // --- Unknown / expired job ---
+    if (!job) {
+        return (
+            <main className="relative min-h-screen flex items-center justify-center px-4">
+                <div className="max-w-md w-full space-y-4">
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>Batch Not Found</AlertTitle>
+                        <AlertDescription>
+                            This batch does not exist or has expired. Batches are kept for a day and are lost when the server restarts.
+                        </AlertDescription>
+                    </Alert>
+                    <Link href="/batch">
+                        <Button variant="outline" className="w-full">
+                            <ArrowLeft className="h-4 w-4 mr-2" />
+                            Start a New Batch
+                        </Button>
+                    </Link>
+                </div>
+            </main>
+        );
+    }
+
+    const { completed, total, running } = batchProgress(job);
+    const failed = job.entries.filter((e) => e.status === "failed").length;
+    const title = job.source.type === "org" ? `Organization: ${job.source.org}` : "Uploaded list";
+
+    return (
+        <main className="relative min-h-screen p-4 md:p-8">
+            <BatchAutoRefresh active={running} />
+            <div className="max-w-6xl mx-auto space-y-6">
+                {/* Back Button */}
+                <Link href="/batch">
+                    <Button variant="ghost" size="sm" className="mb-2">
+                        <ArrowLeft className="h-4 w-4 mr-1" />
+                        New Batch
+                    </Button>
+                </Link>
+
+                {/* ====== PROGRESS ====== */}
+                <div className="animate-fade-in-up">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center justify-between gap-4 text-lg md:text-xl">
+                                <span className="text-cyan-400 truncate">{title}</span>
+                                <span className="font-mono text-sm text-muted-foreground shrink-0">
+                                    {completed}/{total} analyzed{failed > 0 ? ` · ${failed} failed` : ""}
+                                </span>
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            <Progress value={total > 0 ? (completed / total) * 100 : 100} className="h-2" />
+                            {job.notice && (
+                                <p className="flex items-center gap-2 text-sm text-yellow-300">
+                                    <Clock className="h-4 w-4" />
+                                    {job.notice}
+                                </p>
+                            )}
+                            <p className="text-xs text-muted-foreground font-mono">
+                                {running
+                                    ? "Running. This page updates automatically; you can leave and come back."
+                                    : `Finished ${new Date(job.finishedAt ?? job.createdAt).toLocaleString()}.`}
+                            </p>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* ====== LEADERBOARD ====== */}
+                <div className="animate-fade-in-up-delay-1">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center justify-between gap-4 text-lg md:text-xl">
+                                <span className="flex items-center gap-2 text-cyan-400">
+                                    <Trophy className="h-5 w-5" />
+                                    Leaderboard
+                                </span>
+                                {completed > 0 ? (
+                                    <a href={`/batch/${job.id}/export`} download>
+                                        <Button variant="outline" size="sm">
+                                            <Download className="h-4 w-4" />
+                                            Export CSV
+                                        </Button>
+                                    </a>
+                                ) : (
+                                    <Button variant="outline" size="sm" disabled>
+                                        <Download className="h-4 w-4" />
+                                        Export CSV
+                                    </Button>
+                                )}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <BatchLeaderboard entries={job.entries} />
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </main>
+    );
+}
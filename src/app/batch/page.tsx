@@ -0,0 +1,39 @@
+import Link from "next/link";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { BatchForm } from "@/components/batch-form";
+import { ArrowLeft, Users } from "lucide-react";
+
+export default function BatchPage() {
+    return (
+        <main className="relative min-h-screen p-4 md:p-8">
+            <div className="max-w-2xl mx-auto space-y-6">
+                {/* Back Button */}
+                <Link href="/">
+                    <Button variant="ghost" size="sm" className="mb-2">
+                        <ArrowLeft className="h-4 w-4 mr-1" />
+                        Single Scan
+                    </Button>
+                </Link>
+
+                <div className="animate-fade-in-up">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-cyan-400 text-lg md:text-xl">
+                                <Users className="h-5 w-5" />
+                                Batch Analysis
+                            </CardTitle>
+                            <CardDescription>
+                                Analyze every member of a GitHub organization, or a list of usernames from a CSV,
+                                and rank them on a leaderboard you can export.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <BatchForm />
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </main>
+    );
+}
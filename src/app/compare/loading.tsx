@@ -0,0 +1,49 @@
+import { Suspense } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { Terminal } from "lucide-react";
+import { CompareAnalysisProgress } from "@/components/analysis-progress";
+
+export default function CompareLoading() {
+    return (
+        <main className="relative min-h-screen px-4 py-8">
+            <div className="max-w-6xl mx-auto space-y-6">
+                {/* Scanning Banner with live progress */}
+                <div className="animate-fade-in-up">
+                    <Card className="relative overflow-hidden scan-line">
+                        <CardContent className="pt-6 pb-4">
+                            <div className="flex items-center justify-center gap-3 mb-4">
+                                <Terminal className="h-5 w-5 text-cyan-400 animate-glow-pulse" />
+                                <span className="text-cyan-400 font-mono text-sm font-semibold">
+                                    Analyzing Candidates...
+                                </span>
+                            </div>
+                            <Suspense fallback={null}>
+                                <CompareAnalysisProgress />
+                            </Suspense>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* Comparison Grid Skeleton */}
+                <div className="animate-fade-in-up-delay-1">
+                    <Card>
+                        <CardHeader>
+                            <Skeleton className="h-5 w-48" />
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            {[1, 2, 3, 4, 5, 6, 7].map((row) => (
+                                <div key={row} className="grid grid-cols-4 gap-2">
+                                    <Skeleton className="h-10 w-full" />
+                                    <Skeleton className="h-10 w-full" />
+                                    <Skeleton className="h-10 w-full" />
+                                    <Skeleton className="h-10 w-full" />
+                                </div>
+                            ))}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </main>
+    );
+}
@@ -0,0 +1,322 @@
+import { performComparison } from "@/app/actions";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    AlertTriangle,
+    ArrowLeft,
+    Star,
+    Users,
+    BookOpen,
+    FolderTree,
+    Activity,
+    Rocket,
+    Cpu,
+    Gauge,
+    Gavel,
+    Briefcase,
+    Code2,
+    FileText,
+} from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import { bestIndices, MAX_COMPARE_USERS, MIN_COMPARE_USERS, parseCompareUsers } from "@/lib/compare";
+import { roleFromSearchParams } from "@/lib/roles";
+import { cn } from "@/lib/utils";
+import type { AnalysisResponse, AnalysisResult, DimensionKey, GitHubRepo } from "@/lib/types";
+
+interface ComparePageProps {
+    searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const DIMENSIONS: { key: DimensionKey; label: string; icon: typeof BookOpen }[] = [
+    { key: "documentation", label: "Documentation", icon: BookOpen },
+    { key: "code_structure", label: "Code Structure", icon: FolderTree },
+    { key: "consistency", label: "Consistency", icon: Activity },
+    { key: "impact", label: "Impact", icon: Rocket },
+    { key: "technical_depth", label: "Technical Depth", icon: Cpu },
+];
+
+const VERDICT_RANK: Record<AnalysisResult["recruiter_verdict"], number> = {
+    "Strong Hire": 3,
+    Interview: 2,
+    Pass: 1,
+};
+
+const TOP_REPOS = 3;
+
+/** Languages ordered by how many analyzed repos use them. */
+function topLanguages(repos: GitHubRepo[]): string[] {
+    const counts = new Map<string, number>();
+    for (const repo of repos) {
+        if (repo.language) counts.set(repo.language, (counts.get(repo.language) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([lang]) => lang);
+}
+
+function topRepos(repos: GitHubRepo[]): GitHubRepo[] {
+    return [...repos].sort((a, b) => b.stargazers_count - a.stargazers_count).slice(0, TOP_REPOS);
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+    const query = await searchParams;
+    const usernames = parseCompareUsers(query.users);
+    const role = roleFromSearchParams(query);
+
+    // --- Invalid Input State ---
+    if (usernames.length < MIN_COMPARE_USERS || usernames.length > MAX_COMPARE_USERS) {
+        return (
+            <main className="relative min-h-screen flex items-center justify-center px-4">
+                <div className="max-w-md w-full space-y-4">
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>Cannot Compare</AlertTitle>
+                        <AlertDescription>
+                            Provide between {MIN_COMPARE_USERS} and {MAX_COMPARE_USERS} GitHub usernames,
+                            e.g. <span className="font-mono">/compare?users=alice,bob,carol</span>.
+                        </AlertDescription>
+                    </Alert>
+                    <Link href="/">
+                        <Button variant="outline" className="w-full">
+                            <ArrowLeft className="h-4 w-4 mr-2" />
+                            Back to Search
+                        </Button>
+                    </Link>
+                </div>
+            </main>
+        );
+    }
+
+    const results = await performComparison(usernames, role);
+
+    // Per-row values (null = failed analysis, never highlighted)
+    const analyses = results.map((r) => (r.success && r.data && r.profileData ? r : null));
+    const scores = analyses.map((r) => r?.data?.total_score ?? null);
+    const roleFits = analyses.map((r) => r?.data?.role_fit?.score ?? null);
+    // Heuristic-only results carry no real verdict, so they never win this row
+    const verdictRanks = analyses.map((r) =>
+        r?.data && !r.data.isPartial ? VERDICT_RANK[r.data.recruiter_verdict] : null
+    );
+    const languages = analyses.map((r) => (r?.profileData ? topLanguages(r.profileData.repos) : null));
+    const repos = analyses.map((r) => (r?.profileData ? topRepos(r.profileData.repos) : null));
+
+    const gridStyle = {
+        gridTemplateColumns: `minmax(140px, 180px) repeat(${usernames.length}, minmax(180px, 1fr))`,
+    };
+
+    return (
+        <main className="relative min-h-screen p-4 md:p-8">
+            <div className="max-w-6xl mx-auto space-y-6">
+                {/* Back Button */}
+                <Link href="/">
+                    <Button variant="ghost" size="sm" className="mb-2">
+                        <ArrowLeft className="h-4 w-4 mr-1" />
+                        New Scan
+                    </Button>
+                </Link>
+
+                <div className="animate-fade-in-up">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-cyan-400 text-lg md:text-xl">
+                                <Users className="h-5 w-5" />
+                                Candidate Comparison
+                                {role && (
+                                    <span className="text-sm font-normal text-muted-foreground truncate">
+                                        for {role.title}
+                                    </span>
+                                )}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="overflow-x-auto">
+                            <div className="grid gap-2 min-w-max md:min-w-0" style={gridStyle}>
+                                {/* ====== HEADER: Candidates ====== */}
+                                <div />
+                                {results.map((result, i) => (
+                                    <CandidateHeader key={usernames[i]} username={usernames[i]} result={result} />
+                                ))}
+
+                                {/* ====== TOTAL SCORE ====== */}
+                                <RowLabel icon={Gauge} label="Total Score" />
+                                {scores.map((score, i) => (
+                                    <Cell key={i} highlight={bestIndices(scores).has(i)}>
+                                        {score === null ? "—" : (
+                                            <span className="text-2xl font-bold font-mono">
+                                                {score}
+                                                <span className="text-sm text-muted-foreground">/100</span>
+                                            </span>
+                                        )}
+                                    </Cell>
+                                ))}
+
+                                {/* ====== ROLE FIT ====== */}
+                                {role && [
+                                    <RowLabel key="role-label" icon={Briefcase} label="Role Fit" />,
+                                    ...roleFits.map((fit, i) => (
+                                        <Cell key={`role-${i}`} highlight={bestIndices(roleFits).has(i)}>
+                                            <span className="font-mono font-semibold">
+                                                {fit === null ? "—" : `${fit}/100`}
+                                            </span>
+                                        </Cell>
+                                    )),
+                                ]}
+
+                                {/* ====== DIMENSIONS ====== */}
+                                {DIMENSIONS.map(({ key, label, icon }) => {
+                                    const values = analyses.map((r) => r?.data?.dimensions[key]?.score ?? null);
+                                    const best = bestIndices(values);
+                                    return [
+                                        <RowLabel key={`${key}-label`} icon={icon} label={label} />,
+                                        ...values.map((value, i) => (
+                                            <Cell key={`${key}-${i}`} highlight={best.has(i)}>
+                                                <span className="font-mono font-semibold">
+                                                    {value === null ? "—" : `${value}/10`}
+                                                </span>
+                                            </Cell>
+                                        )),
+                                    ];
+                                })}
+
+                                {/* ====== VERDICT ====== */}
+                                <RowLabel icon={Gavel} label="Verdict" />
+                                {analyses.map((r, i) => (
+                                    <Cell key={i} highlight={bestIndices(verdictRanks).has(i)}>
+                                        {r?.data?.isPartial ? (
+                                            <Badge variant="outline">Heuristic only</Badge>
+                                        ) : r?.data ? (
+                                            <Badge
+                                                variant={
+                                                    r.data.recruiter_verdict === "Strong Hire"
+                                                        ? "success"
+                                                        : r.data.recruiter_verdict === "Interview"
+                                                            ? "warning"
+                                                            : "destructive"
+                                                }
+                                            >
+                                                {r.data.recruiter_verdict}
+                                            </Badge>
+                                        ) : "—"}
+                                    </Cell>
+                                ))}
+
+                                {/* ====== LANGUAGES ====== */}
+                                <RowLabel icon={Code2} label="Languages" />
+                                {languages.map((langs, i) => (
+                                    <Cell
+                                        key={i}
+                                        highlight={bestIndices(languages.map((l) => l?.length ?? null)).has(i)}
+                                    >
+                                        {langs === null ? "—" : langs.length === 0 ? (
+                                            <span className="text-muted-foreground">None detected</span>
+                                        ) : (
+                                            <div className="flex flex-wrap gap-1">
+                                                {langs.map((lang) => (
+                                                    <Badge key={lang} variant="outline" className="text-[10px] px-1.5 py-0">
+                                                        {lang}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </Cell>
+                                ))}
+
+                                {/* ====== TOP REPOS ====== */}
+                                <RowLabel icon={FileText} label="Top Repos" />
+                                {repos.map((list, i) => (
+                                    <Cell
+                                        key={i}
+                                        highlight={bestIndices(
+                                            repos.map((l) => l?.reduce((sum, r) => sum + r.stargazers_count, 0) ?? null)
+                                        ).has(i)}
+                                    >
+                                        {list === null ? "—" : (
+                                            <ul className="space-y-1 text-sm">
+                                                {list.map((repo) => (
+                                                    <li key={repo.name} className="flex items-center justify-between gap-2">
+                                                        <a
+                                                            href={repo.html_url}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="truncate hover:text-cyan-400 transition-colors"
+                                                        >
+                                                            {repo.name}
+                                                        </a>
+                                                        <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                                                            <Star className="h-3 w-3" />
+                                                            {repo.stargazers_count}
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </Cell>
+                                ))}
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <p className="text-center text-xs text-muted-foreground font-mono">
+                    <span className="text-cyan-400/60">$</span> Highlighted cells mark the best value in each row
+                </p>
+            </div>
+        </main>
+    );
+}
+
+function CandidateHeader({ username, result }: { username: string; result: AnalysisResponse }) {
+    const user = result.profileData?.user;
+
+    if (!result.success || !user) {
+        return (
+            <div className="p-3 rounded-lg border border-red-500/30 bg-red-500/10 text-sm text-red-300 space-y-1">
+                <p className="font-mono font-semibold">@{username}</p>
+                <p className="opacity-80">{result.error}</p>
+            </div>
+        );
+    }
+
+    return (
+        <Link
+            href={`/report/${encodeURIComponent(user.login)}`}
+            className="group flex items-center gap-3 p-3 rounded-lg border border-white/5 bg-white/[0.02] hover:bg-white/[0.06] hover:border-white/10 transition-all duration-200 min-w-0"
+        >
+            <Image
+                src={user.avatar_url}
+                alt={user.login}
+                width={40}
+                height={40}
+                className="rounded-lg border border-white/10 shrink-0"
+            />
+            <div className="min-w-0">
+                <p className="font-semibold text-foreground truncate group-hover:text-cyan-400 transition-colors">
+                    {user.name || user.login}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono truncate">@{user.login}</p>
+            </div>
+        </Link>
+    );
+}
+
+function RowLabel({ icon: Icon, label }: { icon: typeof BookOpen; label: string }) {
+    return (
+        <div className="flex items-center gap-2 px-2 py-3 text-sm font-medium text-foreground">
+            <Icon className="h-4 w-4 text-cyan-400/70 shrink-0" />
+            {label}
+        </div>
+    );
+}
+
+function Cell({ highlight, children }: { highlight: boolean; children: React.ReactNode }) {
+    return (
+        <div
+            className={cn(
+                "flex items-center px-3 py-3 rounded-lg border border-white/5 text-zinc-300",
+                highlight && "border-cyan-500/40 bg-cyan-500/10 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.15)]"
+            )}
+        >
+            {children}
+        </div>
+    );
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { env } from "@/lib/env";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,6 +14,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  // Link previews need absolute image URLs
+  metadataBase: URL.canParse(env.SITE_URL) ? new URL(env.SITE_URL) : undefined,
   title: "GitHub Portfolio Auditor | AI-Powered Profile Analysis",
   description:
     "Will you get hired? AI-powered GitHub portfolio analysis from a recruiter's perspective. Get instant, actionable feedback on your developer profile.",
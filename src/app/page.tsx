@@ -1,7 +1,8 @@
 "use client";
 
+import Link from "next/link";
 import { SearchForm } from "@/components/search-form";
-import { Terminal, Zap, Shield, Github } from "lucide-react";
+import { Terminal, Zap, Shield, Github, Users } from "lucide-react";
 import { motion } from "framer-motion";
 
 const container = {
@@ -66,6 +67,17 @@ export default function HomePage() {
           <SearchForm />
         </motion.div>
 
+        {/* Batch Mode */}
+        <motion.div variants={fadeUp}>
+          <Link
+            href="/batch"
+            className="inline-flex items-center gap-2 text-sm text-zinc-400 hover:text-cyan-400 transition-colors"
+          >
+            <Users className="h-4 w-4" />
+            Assessing a whole team? Analyze an organization or a CSV of usernames
+          </Link>
+        </motion.div>
+
         {/* Feature Pills */}
         <motion.div variants={fadeUp} className="flex flex-wrap items-center justify-center gap-4 pt-4">
           <FeaturePill icon={<Zap className="h-3.5 w-3.5" />} text="Instant Analysis" />
@@ -0,0 +1,36 @@
+import { loadSnapshot } from "@/lib/snapshots";
+import { EXPORT_FORMATS, exportFileName, reportToMarkdown, reportToPdf, type ExportFormat } from "@/lib/report-export";
+
+/**
+ * GET /r/{id}/export?format=pdf|md — a shared snapshot as a download.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const format = (new URL(request.url).searchParams.get("format") ?? "pdf") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+        return new Response(`Unknown format. Use one of: ${EXPORT_FORMATS.join(", ")}.`, { status: 400 });
+    }
+
+    const loaded = await loadSnapshot(id);
+    if (!loaded) {
+        return new Response("Shared report not found.", { status: 404 });
+    }
+    const { data, profileData } = loaded.snapshot.response ?? {};
+    if (loaded.status !== "active" || !data || !profileData) {
+        return new Response(`This shared report has been ${loaded.status}.`, { status: 410 });
+    }
+
+    const fileName = exportFileName(profileData.user.login, format);
+    const headers = {
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+    };
+    if (format === "md") {
+        return new Response(reportToMarkdown(data, profileData), {
+            headers: { ...headers, "Content-Type": "text/markdown; charset=utf-8" },
+        });
+    }
+    return new Response(reportToPdf(data, profileData), {
+        headers: { ...headers, "Content-Type": "application/pdf" },
+    });
+}
@@ -0,0 +1,94 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { ReportView } from "@/components/report-view";
+import { ExportButtons } from "@/components/export-buttons";
+import { RevokeShareButton } from "@/components/share-report";
+import { loadSnapshot } from "@/lib/snapshots";
+import { roleToSearchParams } from "@/lib/roles";
+import { AlertTriangle, ArrowLeft, Lock } from "lucide-react";
+import Link from "next/link";
+
+// Share links are unguessable on purpose; keep them out of search engines
+export const metadata: Metadata = {
+    robots: { index: false, follow: false },
+};
+
+interface SnapshotPageProps {
+    params: Promise<{ id: string }>;
+}
+
+export default async function SnapshotPage({ params }: SnapshotPageProps) {
+    const { id } = await params;
+    const loaded = await loadSnapshot(id);
+    if (!loaded) notFound();
+
+    const { snapshot, status } = loaded;
+    const result = snapshot.response;
+
+    // --- Expired / Revoked State ---
+    if (status !== "active" || !result?.data || !result.profileData) {
+        const login = result?.profileData?.user.login;
+        return (
+            <main className="relative min-h-screen flex items-center justify-center px-4">
+                <div className="max-w-md w-full space-y-4">
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>{status === "expired" ? "Link expired" : "Link revoked"}</AlertTitle>
+                        <AlertDescription>
+                            {status === "expired"
+                                ? `This shared report expired on ${new Date(snapshot.expiresAt!).toLocaleString()}.`
+                                : "The person who shared this report has revoked the link."}
+                        </AlertDescription>
+                    </Alert>
+                    <Link href={login ? `/report/${encodeURIComponent(login)}` : "/"}>
+                        <Button variant="outline" className="w-full">
+                            <ArrowLeft className="h-4 w-4 mr-2" />
+                            {login ? `Run a fresh analysis of @${login}` : "Analyze a profile"}
+                        </Button>
+                    </Link>
+                </div>
+            </main>
+        );
+    }
+
+    const { data: analysis, profileData } = result;
+
+    // The live report with the same role and repo selection
+    const liveQuery = new URLSearchParams(snapshot.role ? roleToSearchParams(snapshot.role) : undefined);
+    if (snapshot.repos.length > 0) liveQuery.set("repos", snapshot.repos.join(","));
+    const liveQueryString = liveQuery.toString();
+    const liveHref = `/report/${encodeURIComponent(profileData.user.login)}${liveQueryString ? `?${liveQueryString}` : ""}`;
+
+    return (
+        <ReportView
+            analysis={analysis}
+            profileData={profileData}
+            toolbar={
+                <>
+                    <RevokeShareButton id={snapshot.id} />
+                    <ExportButtons href={`/r/${snapshot.id}/export`} />
+                </>
+            }
+            notice={
+                <Alert className="border-cyan-500/30 bg-cyan-500/10 text-cyan-100">
+                    <Lock className="h-4 w-4" />
+                    <AlertTitle>Saved report</AlertTitle>
+                    <AlertDescription>
+                        <p>
+                            Saved on {new Date(snapshot.createdAt).toLocaleString()} from GitHub data fetched on{" "}
+                            {new Date(profileData.fetchedAt).toLocaleString()}. It won&apos;t change when the profile does.{" "}
+                            {snapshot.expiresAt
+                                ? `The link expires on ${new Date(snapshot.expiresAt).toLocaleString()}.`
+                                : "The link doesn't expire."}{" "}
+                            <Link href={liveHref} className="underline hover:text-cyan-300">
+                                See the live report
+                            </Link>
+                        </p>
+                    </AlertDescription>
+                </Alert>
+            }
+        />
+    );
+}
@@ -0,0 +1,40 @@
+import { performAnalysis } from "@/app/actions";
+import { parseRepoSelection } from "@/lib/repo-selection";
+import { EXPORT_FORMATS, exportFileName, reportToMarkdown, reportToPdf, type ExportFormat } from "@/lib/report-export";
+import { roleFromSearchParams } from "@/lib/roles";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /report/{username}/export?format=pdf|md — the report as a download.
+ * Takes the report's query (role, repos), so it exports exactly what the
+ * page shows; usually a cache hit.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ username: string }> }) {
+    const { username } = await params;
+    const query = Object.fromEntries(new URL(request.url).searchParams);
+    const format = (query.format ?? "pdf") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+        return new Response(`Unknown format. Use one of: ${EXPORT_FORMATS.join(", ")}.`, { status: 400 });
+    }
+
+    const result = await performAnalysis(username, roleFromSearchParams(query), parseRepoSelection(query.repos));
+    if (!result.success || !result.data || !result.profileData) {
+        return new Response(result.error ?? "Analysis failed.", { status: result.status ?? 500 });
+    }
+
+    const { data, profileData } = result;
+    const fileName = exportFileName(profileData.user.login, format);
+    const headers = {
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+    };
+    if (format === "md") {
+        return new Response(reportToMarkdown(data, profileData), {
+            headers: { ...headers, "Content-Type": "text/markdown; charset=utf-8" },
+        });
+    }
+    return new Response(reportToPdf(data, profileData), {
+        headers: { ...headers, "Content-Type": "application/pdf" },
+    });
+}
@@ -1,3 +1,4 @@
+import { Suspense } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardHeader, CardContent } from "@/components/ui/card";
 import { Terminal } from "lucide-react";
@@ -17,7 +18,9 @@ export default function ReportLoading() {
                                     Analyzing Profile...
                                 </span>
                             </div>
-                            <AnalysisProgress />
+                            <Suspense fallback={null}>
+                                <AnalysisProgress />
+                            </Suspense>
                         </CardContent>
                     </Card>
                 </div>
@@ -0,0 +1,193 @@
+import { ImageResponse } from "next/og";
+import type { ReactNode } from "react";
+import { getLatestAnalysis } from "@/lib/analysis";
+import { parseRepoSelection } from "@/lib/repo-selection";
+import { roleFromSearchParams } from "@/lib/roles";
+import { extractUsername } from "@/lib/utils";
+import type { AnalysisResult, DimensionKey, GitHubUser } from "@/lib/types";
+
+// ============================================
+// Open Graph Image
+// ============================================
+// The preview card Slack, LinkedIn & co. show for a report link. Built only
+// from the cached or last recorded result (see getLatestAnalysis), so
+// unfurls never run an analysis. Before the first scan it shows a plain
+// profile card.
+
+// --- CONFIG ---
+const SIZE = { width: 1200, height: 630 };
+const CACHE_CONTROL = "public, max-age=3600, stale-while-revalidate=86400";
+const PENDING_CACHE_CONTROL = "public, max-age=300"; // Don't let it stick once a scan exists
+const RING_RADIUS = 110;
+const RING_STROKE = 22;
+
+const DIMENSION_LABELS: Record<DimensionKey, string> = {
+    documentation: "Documentation",
+    code_structure: "Code Structure",
+    consistency: "Consistency",
+    impact: "Impact",
+    technical_depth: "Technical Depth",
+};
+
+/** Same bands as the report page: red < 50 ≤ yellow < 80 ≤ green. */
+function scoreColor(ratio: number): string {
+    if (ratio < 0.5) return "#f87171";
+    if (ratio < 0.8) return "#facc15";
+    return "#34d399";
+}
+
+function verdictLabel(data: AnalysisResult): string {
+    if (data.isMockData) return "Demo data";
+    if (data.isPartial) return "Heuristic score";
+    return data.recruiter_verdict;
+}
+
+function topDimensions(data: AnalysisResult): { label: string; score: number }[] {
+    return (Object.keys(DIMENSION_LABELS) as DimensionKey[])
+        .map((key) => ({ label: DIMENSION_LABELS[key], score: data.dimensions[key].score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 3);
+}
+
+function ScoreRing({ score }: { score: number }) {
+    const size = (RING_RADIUS + RING_STROKE) * 2;
+    const circumference = 2 * Math.PI * RING_RADIUS;
+    return (
+        <div style={{ display: "flex", position: "relative", width: size, height: size, alignItems: "center", justifyContent: "center" }}>
+            <svg width={size} height={size} style={{ position: "absolute", top: 0, left: 0 }}>
+                <circle cx={size / 2} cy={size / 2} r={RING_RADIUS} fill="none" stroke="#1f2937" strokeWidth={RING_STROKE} />
+                <circle
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={RING_RADIUS}
+                    fill="none"
+                    stroke={scoreColor(score / 100)}
+                    strokeWidth={RING_STROKE}
+                    strokeLinecap="round"
+                    strokeDasharray={`${(circumference * score) / 100} ${circumference}`}
+                    transform={`rotate(-90 ${size / 2} ${size / 2})`}
+                />
+            </svg>
+            <div style={{ display: "flex", alignItems: "baseline" }}>
+                <span style={{ fontSize: 84, fontWeight: 700, color: "#f4f4f5" }}>{score}</span>
+                <span style={{ fontSize: 30, color: "#71717a" }}>/100</span>
+            </div>
+        </div>
+    );
+}
+
+function ProfileHeader({ avatarUrl, name, login }: { avatarUrl: string; name: string; login: string }) {
+    return (
+        <div style={{ display: "flex", alignItems: "center", gap: 28 }}>
+            {/* eslint-disable-next-line @next/next/no-img-element -- rendered to PNG, not by the browser */}
+            <img src={avatarUrl} width={120} height={120} style={{ borderRadius: 60, border: "4px solid #22d3ee" }} alt="" />
+            <div style={{ display: "flex", flexDirection: "column" }}>
+                <span style={{ fontSize: 52, fontWeight: 700, color: "#f4f4f5" }}>{name}</span>
+                <span style={{ fontSize: 30, color: "#22d3ee" }}>@{login}</span>
+            </div>
+        </div>
+    );
+}
+
+function Frame({ children }: { children: ReactNode }) {
+    return (
+        <div
+            style={{
+                display: "flex",
+                flexDirection: "column",
+                justifyContent: "space-between",
+                width: "100%",
+                height: "100%",
+                padding: 64,
+                background: "linear-gradient(135deg, #030712 0%, #0b1220 60%, #082f49 100%)",
+                color: "#d4d4d8",
+            }}
+        >
+            {children}
+            <span style={{ fontSize: 22, color: "#71717a" }}>GitHub Portfolio Auditor</span>
+        </div>
+    );
+}
+
+function ReportCard({ user, data }: { user: GitHubUser; data: AnalysisResult }) {
+    return (
+        <Frame>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                <div style={{ display: "flex", flexDirection: "column", gap: 36 }}>
+                    <ProfileHeader avatarUrl={user.avatar_url} name={user.name || user.login} login={user.login} />
+                    <div style={{ display: "flex", flexDirection: "column", gap: 14, width: 600 }}>
+                        {topDimensions(data).map((dim) => (
+                            <div key={dim.label} style={{ display: "flex", alignItems: "center", gap: 20 }}>
+                                <span style={{ width: 230, fontSize: 26 }}>{dim.label}</span>
+                                <div style={{ display: "flex", width: 260, height: 14, borderRadius: 7, background: "#1f2937" }}>
+                                    <div
+                                        style={{
+                                            width: `${dim.score * 10}%`,
+                                            height: "100%",
+                                            borderRadius: 7,
+                                            background: scoreColor(dim.score / 10),
+                                        }}
+                                    />
+                                </div>
+                                <span style={{ width: 70, fontSize: 26 }}>{dim.score}/10</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <div style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 24 }}>
+                    <ScoreRing score={data.total_score} />
+                    <span
+                        style={{
+                            fontSize: 32,
+                            fontWeight: 700,
+                            padding: "8px 28px",
+                            borderRadius: 999,
+                            border: "2px solid #22d3ee",
+                            color: "#22d3ee",
+                        }}
+                    >
+                        {verdictLabel(data)}
+                    </span>
+                </div>
+            </div>
+        </Frame>
+    );
+}
+
+function PendingCard({ login }: { login: string }) {
+    return (
+        <Frame>
+            <div style={{ display: "flex", flexDirection: "column", gap: 40 }}>
+                <ProfileHeader avatarUrl={`https://github.com/${login}.png?size=240`} name={login} login={login} />
+                <span style={{ fontSize: 40, color: "#a1a1aa" }}>Open the link to run a GitHub portfolio analysis.</span>
+            </div>
+        </Frame>
+    );
+}
+
+/**
+ * GET /report/{username}/og — takes the same query as the report (role,
+ * repos). generateMetadata adds a `v` parameter that changes with each
+ * scan, so the long cache lifetime never serves an outdated card.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ username: string }> }) {
+    const { username } = await params;
+    const login = extractUsername(username);
+    if (!login || login.length > 39) {
+        return new Response("Invalid username.", { status: 400 });
+    }
+
+    const query = Object.fromEntries(new URL(request.url).searchParams);
+    const latest = await getLatestAnalysis(login, roleFromSearchParams(query), parseRepoSelection(query.repos));
+
+    if (!latest?.data || !latest.profileData) {
+        return new ImageResponse(<PendingCard login={login} />, {
+            ...SIZE,
+            headers: { "Cache-Control": PENDING_CACHE_CONTROL },
+        });
+    }
+    return new ImageResponse(<ReportCard user={latest.profileData.user} data={latest.data} />, {
+        ...SIZE,
+        headers: { "Cache-Control": CACHE_CONTROL },
+    });
+}
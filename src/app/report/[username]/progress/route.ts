@@ -0,0 +1,63 @@
+import { analysisKey } from "@/lib/analysis";
+import { subscribeProgress } from "@/lib/progress";
+import { parseRepoSelection } from "@/lib/repo-selection";
+import { roleFromSearchParams } from "@/lib/roles";
+
+// --- CONFIG ---
+const MAX_STREAM_MS = 2 * 60 * 1000; // EventSource reconnects (and replays) after this
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /report/{username}/progress — server-sent events for the analysis
+ * the report page is running. Takes the same query as the report
+ * (role, repos) so it subscribes to the same run. Each message is a
+ * TimedProgressEvent; the current run's events are replayed on connect.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ username: string }> }) {
+    const { username } = await params;
+    const query = Object.fromEntries(new URL(request.url).searchParams);
+    const key = analysisKey(username, roleFromSearchParams(query), parseRepoSelection(query.repos));
+    if (!key) {
+        return new Response("Invalid username.", { status: 400 });
+    }
+
+    const encoder = new TextEncoder();
+    let stop = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            let closed = false;
+            const send = (chunk: string) => {
+                if (!closed) controller.enqueue(encoder.encode(chunk));
+            };
+
+            send(": connected\n\n");
+            const unsubscribe = subscribeProgress(key, (timed) => send(`data: ${JSON.stringify(timed)}\n\n`));
+
+            const timer = setTimeout(() => {
+                stop();
+                controller.close();
+            }, MAX_STREAM_MS);
+
+            stop = () => {
+                closed = true;
+                clearTimeout(timer);
+                unsubscribe();
+            };
+            request.signal.addEventListener("abort", () => stop());
+        },
+        cancel() {
+            stop();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            "X-Accel-Buffering": "no",
+        },
+    });
+}
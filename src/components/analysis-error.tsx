@@ -0,0 +1,151 @@
+"use client";
+
+import { useSyncExternalStore, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Clock, Loader2, RefreshCw } from "lucide-react";
+import type { AnalysisErrorCode } from "@/lib/types";
+
+// A one-second clock for the countdown (null while server rendering)
+function subscribeClock(onTick: () => void): () => void {
+    const timer = setInterval(onTick, 1000);
+    return () => clearInterval(timer);
+}
+const readClock = () => Math.floor(Date.now() / 1000) * 1000;
+
+interface Guidance {
+    title: string;
+    hint: string;
+    retryable: boolean; // Trying again later can succeed without anyone changing anything
+}
+
+const GUIDANCE: Record<AnalysisErrorCode, Guidance> = {
+    invalid_username: {
+        title: "Invalid Username",
+        hint: "Enter a GitHub username like \"octocat\" or a profile URL like https://github.com/octocat.",
+        retryable: false,
+    },
+    rate_limited: {
+        title: "Too Many Requests",
+        hint: "Analyses are limited per visitor. Reports you already opened load from the cache in the meantime.",
+        retryable: true,
+    },
+    user_not_found: {
+        title: "User Not Found",
+        hint: "Check the spelling. Organizations aren't users: analyze their members with a batch instead.",
+        retryable: false,
+    },
+    repos_not_found: {
+        title: "Repositories Not Found",
+        hint: "The selected repositories don't exist or aren't owned by this user. Let the analyzer pick them instead.",
+        retryable: false,
+    },
+    github_rate_limited: {
+        title: "GitHub Rate Limit Reached",
+        hint: "Every GitHub token of this server is used up until the reset. Cached reports still load.",
+        retryable: true,
+    },
+    github_auth_invalid: {
+        title: "GitHub Access Misconfigured",
+        hint: "This is a server setup problem; retrying won't help until an administrator fixes the credentials.",
+        retryable: false,
+    },
+    ai_not_configured: {
+        title: "AI Service Not Configured",
+        hint: "This is a server setup problem; retrying won't help until an administrator fixes the settings.",
+        retryable: false,
+    },
+    ai_quota_exceeded: {
+        title: "AI Quota Exhausted",
+        hint: "The AI provider's quota for this server is used up. A heuristic-only score is available meanwhile.",
+        retryable: true,
+    },
+    ai_invalid_output: {
+        title: "AI Analysis Incomplete",
+        hint: "The AI kept returning an unusable analysis. Trying again usually works.",
+        retryable: true,
+    },
+    ai_unavailable: {
+        title: "AI Service Unavailable",
+        hint: "The AI provider couldn't be reached. Trying again in a few minutes usually works.",
+        retryable: true,
+    },
+    internal: {
+        title: "Analysis Failed",
+        hint: "Something went wrong on our side. Trying again usually works.",
+        retryable: true,
+    },
+};
+
+function formatCountdown(ms: number): string {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+    return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+interface AnalysisErrorAlertProps {
+    username: string;
+    error: string;
+    code: AnalysisErrorCode;
+    retryAt?: string; // ISO; the retry button unlocks then
+}
+
+/**
+ * A failed analysis: the message, what the code means for the user, and,
+ * when waiting helps, a retry button that unlocks at `retryAt`.
+ */
+export function AnalysisErrorAlert({ username, error, code, retryAt }: AnalysisErrorAlertProps) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const now = useSyncExternalStore(subscribeClock, readClock, () => null);
+    const guidance = GUIDANCE[code];
+
+    const waitMs = retryAt && now !== null ? Date.parse(retryAt) - now : 0;
+    // Locked until the client clock says otherwise, so server and client markup match
+    const locked = !!retryAt && (now === null || waitMs > 0);
+
+    return (
+        <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{guidance.title}</AlertTitle>
+            <AlertDescription className="space-y-3">
+                <p>{error}</p>
+                <p className="text-xs text-red-300/70">{guidance.hint}</p>
+                {code === "repos_not_found" && (
+                    <Link href={`/report/${encodeURIComponent(username)}`} className="text-xs underline underline-offset-2">
+                        Analyze the automatic selection
+                    </Link>
+                )}
+                {guidance.retryable && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={locked || isPending}
+                        onClick={() => startTransition(() => router.refresh())}
+                    >
+                        {isPending ? (
+                            <>
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                Retrying...
+                            </>
+                        ) : locked ? (
+                            <>
+                                <Clock className="h-4 w-4" />
+                                {now !== null ? `Retry in ${formatCountdown(waitMs)}` : "Retry"}
+                            </>
+                        ) : (
+                            <>
+                                <RefreshCw className="h-4 w-4" />
+                                Retry now
+                            </>
+                        )}
+                    </Button>
+                )}
+            </AlertDescription>
+        </Alert>
+    );
+}
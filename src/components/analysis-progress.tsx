@@ -1,84 +1,344 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { Github, Brain, CheckCircle2 } from "lucide-react";
-
-const STEPS = [
-    { icon: Github, text: "Connecting to GitHub API...", duration: 800 },
-    { icon: Github, text: "Fetching profile data...", duration: 1200 },
-    { icon: Github, text: "Scanning repositories...", duration: 1500 },
-    { icon: Github, text: "Reading README files...", duration: 1000 },
-    { icon: Brain, text: "Running AI analysis...", duration: 2000 },
-    { icon: Brain, text: "Evaluating code quality...", duration: 1500 },
-    { icon: Brain, text: "Generating score...", duration: 1000 },
-];
+import { useEffect, useReducer } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import { Github, Brain, CheckCircle2, Database, FileText, FileX, AlertTriangle, RotateCcw } from "lucide-react";
+import { parseCompareUsers } from "@/lib/compare";
+import type { AnalysisProgressEvent } from "@/lib/types";
 
-export function AnalysisProgress() {
-    const [currentStep, setCurrentStep] = useState(0);
+// ============================================
+// Live Analysis Progress
+// ============================================
+// Subscribes to /report/{username}/progress (server-sent events) and
+// renders what the pipeline is actually doing. Nothing advances on a timer:
+// a step is done when the server says so.
+
+interface RepoStatus {
+    name: string;
+    fetched: boolean;
+    has_readme: boolean;
+    inspected: boolean;
+}
+
+interface ProgressState {
+    started: boolean;
+    cacheHit: boolean;
+    profile: { public_repos: number } | null;
+    selection: { total: number; pool_size: number } | null;
+    repos: RepoStatus[];
+    reposFetched: number;
+    activity: { total_commits: number | null } | null;
+    score: number | null;
+    attempt: { attempt: number; max_attempts: number; provider: string; repair: boolean } | null;
+    retries: { attempt: number; reason: string; delay_ms: number }[];
+    validation: { attempt: number; ok: boolean; errors: string[] } | null;
+    reused: { provider: string } | null;
+    fallback: string | null;
+    done: { success: boolean; error?: string } | null;
+}
+
+const INITIAL_STATE: ProgressState = {
+    started: false,
+    cacheHit: false,
+    profile: null,
+    selection: null,
+    repos: [],
+    reposFetched: 0,
+    activity: null,
+    score: null,
+    attempt: null,
+    retries: [],
+    validation: null,
+    reused: null,
+    fallback: null,
+    done: null,
+};
+
+function reduce(state: ProgressState, event: AnalysisProgressEvent): ProgressState {
+    switch (event.type) {
+        case "start":
+            // A new run (or a replay after reconnecting): start over
+            return { ...INITIAL_STATE, started: true };
+        case "cache_hit":
+            return { ...state, cacheHit: true };
+        case "profile_fetched":
+            return { ...state, profile: { public_repos: event.public_repos } };
+        case "repos_selected":
+            return {
+                ...state,
+                selection: { total: event.repos.length, pool_size: event.pool_size },
+                repos: event.repos.map((name) => ({ name, fetched: false, has_readme: false, inspected: false })),
+            };
+        case "repo_fetched":
+            return {
+                ...state,
+                reposFetched: event.completed,
+                repos: state.repos.map((repo) =>
+                    repo.name === event.repo
+                        ? { ...repo, fetched: true, has_readme: event.has_readme, inspected: event.inspected }
+                        : repo
+                ),
+            };
+        case "activity_fetched":
+            return { ...state, activity: { total_commits: event.total_commits } };
+        case "scored":
+            return { ...state, score: event.total_score };
+        case "ai_attempt":
+            return { ...state, attempt: event, validation: null };
+        case "ai_retry":
+            return { ...state, retries: [...state.retries, event] };
+        case "validation":
+            return { ...state, validation: event };
+        case "ai_reused":
+            return { ...state, reused: { provider: event.provider } };
+        case "ai_fallback":
+            return { ...state, fallback: event.reason };
+        case "done":
+            return { ...state, done: { success: event.success, error: event.error } };
+    }
+}
+
+/** Subscribes to a run's progress for as long as the component is mounted. */
+function useAnalysisProgress(username: string, search: string): ProgressState {
+    const [state, dispatch] = useReducer(reduce, INITIAL_STATE);
 
     useEffect(() => {
-        let timeout: NodeJS.Timeout;
-        function advanceStep() {
-            setCurrentStep((prev) => {
-                const next = prev + 1;
-                if (next < STEPS.length) {
-                    timeout = setTimeout(advanceStep, STEPS[next].duration);
-                }
-                return next;
-            });
-        }
-        timeout = setTimeout(advanceStep, STEPS[0].duration);
-        return () => clearTimeout(timeout);
-    }, []);
+        const source = new EventSource(
+            `/report/${encodeURIComponent(username)}/progress${search ? `?${search}` : ""}`
+        );
+        source.onmessage = (message) => {
+            try {
+                dispatch(JSON.parse(message.data).event);
+            } catch {
+                // Ignore malformed messages; the page renders the result regardless
+            }
+        };
+        return () => source.close();
+    }, [username, search]);
+
+    return state;
+}
+
+type StepStatus = "pending" | "active" | "done" | "warning";
+
+interface Step {
+    id: "cache" | "profile" | "selection" | "repos" | "activity" | "score" | "ai";
+    icon: typeof Github;
+    text: string;
+    detail?: string;
+    status: StepStatus;
+}
+
+function aiStep(state: ProgressState): Step {
+    const { attempt, validation, reused, fallback, done } = state;
+    if (fallback) {
+        return { id: "ai", icon: Brain, text: "AI unavailable", detail: "Showing heuristic-only result", status: "warning" };
+    }
+    if (reused) {
+        return { id: "ai", icon: Brain, text: "AI analysis reused", detail: `Payload unchanged since last run · ${reused.provider}`, status: "done" };
+    }
+    if (validation?.ok) {
+        return { id: "ai", icon: Brain, text: "AI analysis validated", detail: `Attempt ${validation.attempt}`, status: "done" };
+    }
+    if (!attempt) {
+        return { id: "ai", icon: Brain, text: "Running AI analysis...", status: done?.success ? "done" : "pending" };
+    }
+
+    const detail = validation && !validation.ok
+        ? `Attempt ${validation.attempt}: ${validation.errors.length} schema error${validation.errors.length === 1 ? "" : "s"}, repairing...`
+        : `Attempt ${attempt.attempt} of ${attempt.max_attempts} · ${attempt.provider}${attempt.repair ? " · repair" : ""}`;
+    return { id: "ai", icon: Brain, text: "Running AI analysis...", detail, status: done ? (done.success ? "done" : "pending") : "active" };
+}
+
+/** Derives the checklist from the events received so far. */
+function buildSteps(state: ProgressState): Step[] {
+    const stepStatus = (isDone: boolean): StepStatus => (isDone ? "done" : "pending");
+
+    if (state.cacheHit) {
+        return [{ id: "cache", icon: Database, text: "Loaded cached analysis", status: "done" }];
+    }
+
+    const steps: Step[] = [
+        { id: "cache", icon: Database, text: "Checking cache...", detail: state.profile ? "No cached result" : undefined, status: stepStatus(state.started) },
+        {
+            id: "profile",
+            icon: Github,
+            text: "Fetching profile data...",
+            detail: state.profile ? `${state.profile.public_repos} public repositories` : undefined,
+            status: stepStatus(!!state.profile),
+        },
+        {
+            id: "selection",
+            icon: Github,
+            text: "Selecting repositories...",
+            detail: state.selection ? `${state.selection.total} of ${state.selection.pool_size} candidates` : undefined,
+            status: stepStatus(!!state.selection),
+        },
+        {
+            id: "repos",
+            icon: FileText,
+            text: "Reading READMEs and file trees...",
+            detail: state.selection ? `${state.reposFetched} of ${state.selection.total} repositories` : undefined,
+            status: stepStatus(!!state.selection && state.reposFetched === state.selection.total),
+        },
+        {
+            id: "activity",
+            icon: Github,
+            text: "Measuring commit activity...",
+            detail: state.activity
+                ? state.activity.total_commits === null
+                    ? "Unavailable, using repo dates"
+                    : `${state.activity.total_commits} commits in the last year`
+                : undefined,
+            status: stepStatus(!!state.activity),
+        },
+        {
+            id: "score",
+            icon: Brain,
+            text: "Computing heuristic score...",
+            detail: state.score !== null ? `${state.score} / 100` : undefined,
+            status: stepStatus(state.score !== null),
+        },
+        aiStep(state),
+    ];
+
+    // The first unfinished step is the one the server is working on
+    if (state.started && !state.done) {
+        const current = steps.find((step) => step.status === "pending");
+        if (current) current.status = "active";
+    }
+    return steps;
+}
+
+function ActiveDots() {
+    return (
+        <span className="ml-auto flex gap-1">
+            <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-bounce" style={{ animationDelay: "0ms" }} />
+            <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-bounce" style={{ animationDelay: "150ms" }} />
+            <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-bounce" style={{ animationDelay: "300ms" }} />
+        </span>
+    );
+}
+
+function StepRow({ step }: { step: Step }) {
+    const Icon = step.icon;
+    const isActive = step.status === "active";
+
+    return (
+        <div
+            className={`flex items-center gap-3 px-4 py-2 rounded-lg transition-all duration-500 ${isActive
+                ? "bg-cyan-500/10 border border-cyan-500/20"
+                : step.status === "pending"
+                    ? "opacity-20"
+                    : "opacity-60"
+                }`}
+        >
+            {step.status === "done" ? (
+                <CheckCircle2 className="h-4 w-4 text-emerald-400 shrink-0" />
+            ) : step.status === "warning" ? (
+                <AlertTriangle className="h-4 w-4 text-yellow-400 shrink-0" />
+            ) : (
+                <Icon
+                    className={`h-4 w-4 shrink-0 ${isActive ? "text-cyan-400 animate-pulse" : "text-muted-foreground"}`}
+                />
+            )}
+            <span className={`text-sm font-mono ${isActive ? "text-cyan-400" : "text-muted-foreground"}`}>
+                {step.text}
+            </span>
+            {step.detail && (
+                <span className="text-xs font-mono text-muted-foreground truncate">{step.detail}</span>
+            )}
+            {isActive && <ActiveDots />}
+        </div>
+    );
+}
+
+function RepoList({ repos }: { repos: RepoStatus[] }) {
+    if (repos.length === 0) return null;
+    return (
+        <div className="flex flex-wrap gap-1.5 px-4 pb-1">
+            {repos.map((repo) => (
+                <span
+                    key={repo.name}
+                    title={
+                        repo.fetched
+                            ? `${repo.has_readme ? "README fetched" : "No README"}${repo.inspected ? ", file tree inspected" : ""}`
+                            : "Pending"
+                    }
+                    className={`inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-[11px] font-mono transition-opacity ${repo.fetched
+                        ? "border-white/10 text-muted-foreground"
+                        : "border-white/5 text-muted-foreground opacity-40"
+                        }`}
+                >
+                    {repo.fetched && (repo.has_readme
+                        ? <FileText className="h-3 w-3 text-emerald-400" />
+                        : <FileX className="h-3 w-3 text-yellow-400" />)}
+                    {repo.name}
+                </span>
+            ))}
+        </div>
+    );
+}
+
+function RetryNotices({ retries }: { retries: ProgressState["retries"] }) {
+    if (retries.length === 0) return null;
+    return (
+        <div className="space-y-1 px-4">
+            {retries.map((retry) => (
+                <p key={retry.attempt} className="flex items-center gap-2 text-xs font-mono text-yellow-400/80">
+                    <RotateCcw className="h-3 w-3 shrink-0" />
+                    Attempt {retry.attempt} failed ({retry.reason}), retrying in {Math.round(retry.delay_ms / 1000)}s
+                </p>
+            ))}
+        </div>
+    );
+}
+
+function ProgressPanel({ username, search }: { username: string; search: string }) {
+    const state = useAnalysisProgress(username, search);
+    const steps = buildSteps(state);
 
     return (
         <div className="space-y-2">
-            {STEPS.map((step, i) => {
-                const Icon = step.icon;
-                const isActive = i === currentStep;
-                const isDone = i < currentStep;
-
-
-                return (
-                    <div
-                        key={i}
-                        className={`flex items-center gap-3 px-4 py-2 rounded-lg transition-all duration-500 ${isActive
-                            ? "bg-cyan-500/10 border border-cyan-500/20"
-                            : isDone
-                                ? "opacity-60"
-                                : "opacity-20"
-                            }`}
-                    >
-                        {isDone ? (
-                            <CheckCircle2 className="h-4 w-4 text-emerald-400 shrink-0" />
-                        ) : (
-                            <Icon
-                                className={`h-4 w-4 shrink-0 ${isActive
-                                    ? "text-cyan-400 animate-pulse"
-                                    : "text-muted-foreground"
-                                    }`}
-                            />
-                        )}
-                        <span
-                            className={`text-sm font-mono ${isActive
-                                ? "text-cyan-400"
-                                : isDone
-                                    ? "text-muted-foreground line-through"
-                                    : "text-muted-foreground"
-                                }`}
-                        >
-                            {step.text}
-                        </span>
-                        {isActive && (
-                            <span className="ml-auto flex gap-1">
-                                <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-bounce" style={{ animationDelay: "0ms" }} />
-                                <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-bounce" style={{ animationDelay: "150ms" }} />
-                                <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-bounce" style={{ animationDelay: "300ms" }} />
-                            </span>
-                        )}
-                    </div>
-                );
-            })}
+            {steps.map((step) => (
+                <div key={step.id} className="space-y-2">
+                    <StepRow step={step} />
+                    {step.id === "repos" && <RepoList repos={state.repos} />}
+                    {step.id === "ai" && <RetryNotices retries={state.retries} />}
+                </div>
+            ))}
+            {state.done && !state.done.success && (
+                <p className="px-4 text-xs font-mono text-red-400">{state.done.error}</p>
+            )}
+        </div>
+    );
+}
+
+/** Progress of the report being rendered (username and query from the URL). */
+export function AnalysisProgress() {
+    const { username } = useParams<{ username: string }>();
+    const search = useSearchParams().toString();
+    return <ProgressPanel username={decodeURIComponent(username)} search={search} />;
+}
+
+/** One progress panel per candidate on the compare page. */
+export function CompareAnalysisProgress() {
+    const searchParams = useSearchParams();
+    const usernames = parseCompareUsers(searchParams.get("users") ?? undefined);
+
+    // Only the role applies to each candidate's run
+    const roleQuery = new URLSearchParams(searchParams);
+    roleQuery.delete("users");
+    const search = roleQuery.toString();
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {usernames.map((username) => (
+                <div key={username} className="space-y-2">
+                    <p className="px-4 text-sm font-mono font-semibold text-foreground">@{username}</p>
+                    <ProgressPanel username={username} search={search} />
+                </div>
+            ))}
         </div>
     );
 }
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Award, Check, Copy, X } from "lucide-react";
+import { STALE_AFTER_DAYS, badgeLabel } from "@/lib/badge";
+import type { DimensionKey } from "@/lib/types";
+
+interface BadgeSnippetButtonProps {
+    username: string;
+    dimensions: DimensionKey[]; // Offered besides the total score
+}
+
+/**
+ * README badge: previews /badge/{username} and copies a Markdown snippet
+ * that links back to the report.
+ */
+export function BadgeSnippetButton({ username, dimensions }: BadgeSnippetButtonProps) {
+    const [open, setOpen] = useState(false);
+    const [dimension, setDimension] = useState<DimensionKey | "">("");
+    const [copied, setCopied] = useState(false);
+
+    const login = encodeURIComponent(username);
+    const badgePath = `/badge/${login}${dimension ? `?dimension=${dimension}` : ""}`;
+
+    // Only built once the popover is open, i.e. in the browser
+    const snippet = () => {
+        const origin = window.location.origin;
+        return `[![${badgeLabel(dimension || null)}](${origin}${badgePath})](${origin}/report/${login})`;
+    };
+
+    const copy = async () => {
+        await navigator.clipboard.writeText(snippet());
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    return (
+        <div className="relative">
+            <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>
+                <Award className="h-4 w-4" />
+                Badge
+            </Button>
+
+            {open && (
+                <div className="absolute right-0 z-20 mt-2 w-96 space-y-3 rounded-lg border border-white/10 bg-[#0a0a0f] p-4 shadow-xl">
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-semibold text-foreground">Add a score badge to your README</span>
+                        <button type="button" onClick={() => setOpen(false)} className="text-muted-foreground hover:text-foreground">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    <label className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                        Show
+                        <select
+                            value={dimension}
+                            onChange={(e) => setDimension(e.target.value as DimensionKey | "")}
+                            className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-foreground"
+                        >
+                            <option value="">Total score</option>
+                            {dimensions.map((key) => (
+                                <option key={key} value={key}>
+                                    {badgeLabel(key)}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <Image src={badgePath} alt={badgeLabel(dimension || null)} width={160} height={20} unoptimized className="h-5 w-auto" />
+
+                    <div className="flex gap-2">
+                        <Input readOnly value={snippet()} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                        <Button variant="outline" size="sm" onClick={copy} aria-label="Copy Markdown">
+                            {copied ? <Check className="h-4 w-4 text-emerald-400" /> : <Copy className="h-4 w-4" />}
+                        </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Shows your latest stored result and never starts a new analysis. It turns grey once the
+                        result is more than {STALE_AFTER_DAYS} days old; re-run the report to refresh it.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
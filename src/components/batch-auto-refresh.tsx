@@ -0,0 +1,21 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+
+const REFRESH_INTERVAL_MS = 3000;
+
+/**
+ * Re-renders the batch page every few seconds while the job is running.
+ */
+export function BatchAutoRefresh({ active }: { active: boolean }) {
+    const router = useRouter();
+
+    useEffect(() => {
+        if (!active) return;
+        const timer = setInterval(() => router.refresh(), REFRESH_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [active, router]);
+
+    return null;
+}
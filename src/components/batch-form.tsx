@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Building2, FileUp, Loader2 } from "lucide-react";
+import { startBatch } from "@/app/actions";
+import { MAX_BATCH_USERS, parseUsernameList } from "@/lib/batch";
+
+type Mode = "org" | "list";
+
+export function BatchForm() {
+    const [mode, setMode] = useState<Mode>("org");
+    const [org, setOrg] = useState("");
+    const [list, setList] = useState("");
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const router = useRouter();
+
+    const listCount = mode === "list" ? parseUsernameList(list).usernames.length : 0;
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setFileName(file.name);
+        setList(await file.text());
+        setError(null);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsLoading(true);
+
+        const result = await startBatch(mode === "org" ? { org } : { list });
+        if (!result.success || !result.batchId) {
+            setError(result.error ?? "Could not start the batch.");
+            setIsLoading(false);
+            return;
+        }
+        router.push(`/batch/${result.batchId}`);
+    };
+
+    const tabClass = (tab: Mode) =>
+        `flex-1 flex items-center justify-center gap-2 rounded-md px-3 py-2 text-sm font-mono transition-colors ${mode === tab
+            ? "bg-cyan-500/20 text-cyan-300 border border-cyan-500/30"
+            : "text-muted-foreground hover:text-foreground border border-transparent"
+        }`;
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col w-full gap-4">
+            <div className="flex gap-2 rounded-lg border border-white/10 bg-white/5 p-1" role="tablist">
+                <button type="button" role="tab" aria-selected={mode === "org"} className={tabClass("org")} onClick={() => setMode("org")}>
+                    <Building2 className="h-4 w-4" />
+                    Organization
+                </button>
+                <button type="button" role="tab" aria-selected={mode === "list"} className={tabClass("list")} onClick={() => setMode("list")}>
+                    <FileUp className="h-4 w-4" />
+                    CSV / list
+                </button>
+            </div>
+
+            {mode === "org" ? (
+                <Input
+                    type="text"
+                    placeholder="Organization name or URL (e.g., https://github.com/vercel)"
+                    value={org}
+                    onChange={(e) => {
+                        setOrg(e.target.value);
+                        if (error) setError(null);
+                    }}
+                    disabled={isLoading}
+                    autoComplete="off"
+                    spellCheck={false}
+                />
+            ) : (
+                <div className="flex flex-col gap-2">
+                    <label className="flex items-center gap-3 rounded-lg border border-dashed border-white/15 bg-white/[0.02] px-4 py-3 text-sm text-muted-foreground cursor-pointer hover:border-cyan-400/40 transition-colors">
+                        <FileUp className="h-4 w-4 text-cyan-400" />
+                        {fileName ?? "Upload a CSV (a \"username\" or \"github\" column, or one username per line)"}
+                        <input
+                            type="file"
+                            accept=".csv,.txt,text/csv,text/plain"
+                            className="sr-only"
+                            disabled={isLoading}
+                            onChange={(e) => handleFile(e.target.files?.[0])}
+                        />
+                    </label>
+                    <textarea
+                        value={list}
+                        onChange={(e) => {
+                            setList(e.target.value);
+                            if (error) setError(null);
+                        }}
+                        disabled={isLoading}
+                        rows={6}
+                        placeholder={"...or paste usernames / profile URLs here\nalice\nhttps://github.com/bob"}
+                        className="w-full rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-foreground placeholder:text-zinc-500 font-mono transition-all duration-200 focus:outline-none focus:border-cyan-400/50 focus:ring-2 focus:ring-cyan-400/20 disabled:opacity-50 resize-y"
+                    />
+                </div>
+            )}
+
+            <Button
+                type="submit"
+                size="lg"
+                disabled={isLoading || (mode === "org" ? !org.trim() : listCount === 0)}
+            >
+                {isLoading ? (
+                    <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Starting...
+                    </>
+                ) : mode === "org" ? (
+                    "Analyze organization"
+                ) : (
+                    `Analyze ${listCount} user${listCount === 1 ? "" : "s"}`
+                )}
+            </Button>
+
+            {error ? (
+                <p className="text-sm text-red-400 px-1">{error}</p>
+            ) : (
+                <p className="text-xs text-zinc-500 px-1">
+                    Up to {MAX_BATCH_USERS} users per batch. Users are analyzed one at a time to respect GitHub and AI rate limits.
+                </p>
+            )}
+        </form>
+    );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDown, ArrowUp, Loader2 } from "lucide-react";
+import { rankEntries } from "@/lib/batch";
+import type { BatchEntry, DimensionKey } from "@/lib/types";
+
+interface BatchLeaderboardProps {
+    entries: BatchEntry[];
+}
+
+type SortKey = "rank" | "username" | DimensionKey;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+    { key: "rank", label: "Score" },
+    { key: "username", label: "User" },
+    { key: "documentation", label: "Docs" },
+    { key: "code_structure", label: "Structure" },
+    { key: "consistency", label: "Consistency" },
+    { key: "impact", label: "Impact" },
+    { key: "technical_depth", label: "Depth" },
+];
+
+const VERDICT_VARIANT = {
+    "Strong Hire": "success",
+    "Interview": "warning",
+    "Pass": "destructive",
+} as const;
+
+/** Sort value; missing scores always sink to the bottom. */
+function sortValue(entry: BatchEntry, key: SortKey): number | string | null {
+    if (key === "username") return entry.username.toLowerCase();
+    if (key === "rank") return entry.total_score ?? null;
+    return entry.dimensions?.[key] ?? null;
+}
+
+/**
+ * Sortable leaderboard of a batch. Default order is the ranking
+ * (highest score first); clicking a header sorts by that column.
+ */
+export function BatchLeaderboard({ entries }: BatchLeaderboardProps) {
+    const [sortKey, setSortKey] = useState<SortKey>("rank");
+    const [descending, setDescending] = useState(true);
+
+    const ranked = rankEntries(entries);
+    const rankOf = new Map(
+        ranked.filter((e) => e.status === "done").map((e, i) => [e.username, i + 1])
+    );
+
+    const sorted = [...ranked].sort((a, b) => {
+        const va = sortValue(a, sortKey);
+        const vb = sortValue(b, sortKey);
+        if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+        const order = va < vb ? -1 : va > vb ? 1 : 0;
+        return descending ? -order : order;
+    });
+
+    const onSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setDescending(!descending);
+        } else {
+            setSortKey(key);
+            setDescending(key !== "username");
+        }
+    };
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="border-b border-white/10 text-left text-xs text-muted-foreground font-mono">
+                        <th className="py-2 pr-3 font-normal">#</th>
+                        {COLUMNS.map(({ key, label }) => (
+                            <th key={key} className="py-2 pr-3 font-normal">
+                                <button
+                                    type="button"
+                                    onClick={() => onSort(key)}
+                                    className={`inline-flex items-center gap-1 hover:text-cyan-400 transition-colors ${sortKey === key ? "text-cyan-400" : ""}`}
+                                >
+                                    {label}
+                                    {sortKey === key && (descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+                                </button>
+                            </th>
+                        ))}
+                        <th className="py-2 font-normal">Verdict</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                    {sorted.map((entry) => (
+                        <tr key={entry.username} className="hover:bg-white/[0.03]">
+                            <td className="py-2 pr-3 font-mono text-muted-foreground">
+                                {rankOf.get(entry.username) ?? "—"}
+                            </td>
+                            <td className="py-2 pr-3 font-mono text-lg font-bold text-foreground">
+                                {entry.status === "done" ? entry.total_score : ""}
+                            </td>
+                            <td className="py-2 pr-3">
+                                <Link
+                                    href={`/report/${encodeURIComponent(entry.username)}`}
+                                    className="flex items-center gap-2 hover:text-cyan-400 transition-colors"
+                                >
+                                    {entry.avatar_url && (
+                                        <Image
+                                            src={entry.avatar_url}
+                                            alt={entry.username}
+                                            width={24}
+                                            height={24}
+                                            className="rounded-md"
+                                        />
+                                    )}
+                                    <span className="font-medium">{entry.name || entry.username}</span>
+                                    {entry.name && (
+                                        <span className="text-xs text-muted-foreground font-mono">@{entry.username}</span>
+                                    )}
+                                </Link>
+                            </td>
+                            {COLUMNS.slice(2).map(({ key }) => (
+                                <td key={key} className="py-2 pr-3 font-mono text-muted-foreground">
+                                    {entry.dimensions?.[key as DimensionKey] ?? ""}
+                                </td>
+                            ))}
+                            <td className="py-2">
+                                <StatusCell entry={entry} />
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+function StatusCell({ entry }: { entry: BatchEntry }) {
+    if (entry.status === "queued") {
+        return <span className="text-xs text-muted-foreground font-mono">Queued</span>;
+    }
+    if (entry.status === "running") {
+        return (
+            <span className="inline-flex items-center gap-1 text-xs text-cyan-400 font-mono">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Analyzing
+            </span>
+        );
+    }
+    if (entry.status === "failed") {
+        return (
+            <span className="text-xs text-red-400" title={entry.error}>
+                Failed
+            </span>
+        );
+    }
+    if (entry.isPartial || !entry.recruiter_verdict) {
+        return <Badge variant="outline">Heuristic only</Badge>;
+    }
+    return <Badge variant={VERDICT_VARIANT[entry.recruiter_verdict]}>{entry.recruiter_verdict}</Badge>;
+}
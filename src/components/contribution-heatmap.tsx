@@ -0,0 +1,99 @@
+import type { CommitActivity } from "@/lib/types";
+
+interface ContributionHeatmapProps {
+    activity: CommitActivity | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Cell colour by intensity level (0 = no commits). */
+const LEVEL_CLASSES = ["bg-white/5", "bg-cyan-900", "bg-cyan-700", "bg-cyan-500", "bg-cyan-300"];
+
+function levelOf(count: number, max: number): number {
+    if (count === 0) return 0;
+    return Math.max(1, Math.ceil((count / max) * 4));
+}
+
+function formatDay(time: number): string {
+    return new Date(time).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+/**
+ * GitHub-style heatmap of authored commits over the last 52 weeks
+ * (one column per week, Sunday on top), with the consistency metric.
+ */
+export function ContributionHeatmap({ activity }: ContributionHeatmapProps) {
+    if (!activity) {
+        return (
+            <p className="text-sm text-muted-foreground font-mono">
+                Commit history unavailable. Consistency is estimated from repo push dates.
+            </p>
+        );
+    }
+
+    const start = Date.parse(activity.since);
+    const lastDay = Math.floor((Date.parse(activity.until) - start) / DAY_MS);
+    const max = Math.max(...activity.daily_commits, 1);
+    const { consistency } = activity;
+
+    // Month label on the first week that starts in a new month
+    const monthLabels = activity.weekly_commits.map((_, week) => {
+        const date = new Date(start + week * 7 * DAY_MS);
+        const previous = new Date(start + (week - 1) * 7 * DAY_MS);
+        return week === 0 || date.getUTCMonth() !== previous.getUTCMonth()
+            ? date.toLocaleDateString("en-US", { month: "short", timeZone: "UTC" })
+            : "";
+    });
+
+    const stats = [
+        { label: "Commits", value: `${activity.total_commits}${activity.truncated ? "+" : ""}` },
+        { label: "Active weeks", value: `${consistency.active_weeks}/${activity.weekly_commits.length}` },
+        { label: "Last 12 weeks", value: `${consistency.recent_active_weeks}/12` },
+        { label: "Longest streak", value: `${consistency.longest_streak_weeks}w` },
+        { label: "Current streak", value: `${consistency.current_streak_weeks}w` },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {stats.map(({ label, value }) => (
+                    <div key={label} className="rounded-lg border border-white/5 bg-white/[0.02] p-3">
+                        <div className="font-mono text-lg font-bold text-foreground">{value}</div>
+                        <div className="text-xs text-muted-foreground">{label}</div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="overflow-x-auto">
+                <div className="inline-flex flex-col gap-1 min-w-max">
+                    <div className="flex gap-[3px] text-[10px] text-muted-foreground font-mono h-3">
+                        {monthLabels.map((label, week) => (
+                            <span key={week} className="w-2.5 overflow-visible whitespace-nowrap">
+                                {label}
+                            </span>
+                        ))}
+                    </div>
+                    <div
+                        className="grid grid-flow-col grid-rows-7 gap-[3px]"
+                        role="img"
+                        aria-label={`${activity.total_commits} commits across ${consistency.active_weeks} active weeks`}
+                    >
+                        {activity.daily_commits.map((count, day) => (
+                            <div
+                                key={day}
+                                className={`w-2.5 h-2.5 rounded-[2px] ${day > lastDay ? "invisible" : LEVEL_CLASSES[levelOf(count, max)]}`}
+                                title={`${count} commit${count === 1 ? "" : "s"} on ${formatDay(start + day * DAY_MS)}`}
+                            />
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground font-mono">
+                Commits authored by the user in the analyzed repos
+                {activity.truncated ? " (very active repos were sampled; counts are a lower bound)" : ""}.
+                Consistency score: {consistency.score}/10.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,29 @@
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import type { ExportFormat } from "@/lib/report-export";
+
+interface ExportButtonsProps {
+    href: string; // Export route, including any query except `format`
+}
+
+/** PDF and Markdown download links for a report or snapshot. */
+export function ExportButtons({ href }: ExportButtonsProps) {
+    const withFormat = (format: ExportFormat) => `${href}${href.includes("?") ? "&" : "?"}format=${format}`;
+
+    return (
+        <>
+            <a href={withFormat("pdf")} download>
+                <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4" />
+                    PDF
+                </Button>
+            </a>
+            <a href={withFormat("md")} download>
+                <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4" />
+                    Markdown
+                </Button>
+            </a>
+        </>
+    );
+}
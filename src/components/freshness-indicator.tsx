@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { useRouter } from "next/navigation";
+import { Clock, Loader2 } from "lucide-react";
+import type { AnalysisProgressEvent } from "@/lib/types";
+
+// --- CONFIG ---
+const TICK_MS = 30 * 1000;
+
+// A clock that re-renders subscribers every TICK_MS (null while server rendering)
+function subscribeClock(onTick: () => void): () => void {
+    const timer = setInterval(onTick, TICK_MS);
+    return () => clearInterval(timer);
+}
+const readClock = () => Math.floor(Date.now() / TICK_MS) * TICK_MS;
+
+function formatAge(ms: number): string {
+    const minutes = Math.floor(ms / 60_000);
+    if (minutes < 1) return "just now";
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} h ago`;
+    const days = Math.floor(hours / 24);
+    return `${days} day${days === 1 ? "" : "s"} ago`;
+}
+
+interface FreshnessIndicatorProps {
+    username: string;
+    search: string; // The report's query (role, repos): identifies its progress channel
+    fetchedAt: string;
+    revalidating: boolean; // Served stale while a background run refreshes it
+}
+
+/**
+ * "Updated N min ago", plus "Refreshing…" while a background run replaces
+ * a stale result. Reloads the report once that run has finished.
+ */
+export function FreshnessIndicator({ username, search, fetchedAt, revalidating }: FreshnessIndicatorProps) {
+    const router = useRouter();
+    const now = useSyncExternalStore(subscribeClock, readClock, () => null);
+    const [refreshFailed, setRefreshFailed] = useState(false);
+    // Reload at most once: a result that still isn't cacheable would loop
+    const [reloaded, setReloaded] = useState(false);
+
+    useEffect(() => {
+        if (!revalidating || reloaded) return;
+
+        const source = new EventSource(
+            `/report/${encodeURIComponent(username)}/progress${search ? `?${search}` : ""}`
+        );
+        // Only the refresh run's own "done" counts, not a replayed cache hit;
+        // a heuristic-only fallback isn't cached, so reloading wouldn't show it
+        let cacheHit = false;
+        let fellBack = false;
+        source.onmessage = (message) => {
+            let event: AnalysisProgressEvent;
+            try {
+                event = JSON.parse(message.data).event;
+            } catch {
+                return;
+            }
+            if (event.type === "start") cacheHit = fellBack = false;
+            if (event.type === "cache_hit") cacheHit = true;
+            if (event.type === "ai_fallback") fellBack = true;
+            if (event.type === "done" && !cacheHit) {
+                source.close();
+                if (event.success && !fellBack) {
+                    setReloaded(true);
+                    router.refresh();
+                } else {
+                    setRefreshFailed(true);
+                }
+            }
+        };
+        return () => source.close();
+    }, [username, search, revalidating, reloaded, router]);
+
+    return (
+        <span
+            className="flex items-center gap-1.5 text-xs font-mono text-muted-foreground"
+            // Local time only in the browser, so server and client markup match
+            title={now !== null ? `GitHub data fetched ${new Date(fetchedAt).toLocaleString()}` : undefined}
+        >
+            {revalidating && !refreshFailed ? (
+                <Loader2 className="h-3 w-3 animate-spin text-cyan-400" />
+            ) : (
+                <Clock className="h-3 w-3" />
+            )}
+            {now !== null && `Updated ${formatAge(now - Date.parse(fetchedAt))}`}
+            {revalidating && (refreshFailed ? " · refresh failed" : " · refreshing…")}
+        </span>
+    );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ListChecks, Loader2, RotateCcw, Star } from "lucide-react";
+import type { RepoCandidate } from "@/lib/types";
+
+interface RepoPickerProps {
+    username: string;
+    candidates: RepoCandidate[]; // Most relevant repos of the pool
+    poolSize: number; // Owned repos considered
+    selected: string[]; // Repos in the current report
+    missing: string[]; // Requested repos that could not be found
+    isManual: boolean;
+    roleQuery: string; // Role params to keep in the URL
+    maxSelected: number;
+}
+
+/**
+ * Lets the user choose which repos to analyze. The choice is encoded
+ * as ?repos=a,b,c so the resulting report is shareable.
+ */
+export function RepoPicker({
+    username,
+    candidates,
+    poolSize,
+    selected,
+    missing,
+    isManual,
+    roleQuery,
+    maxSelected,
+}: RepoPickerProps) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [checked, setChecked] = useState<string[]>(selected);
+    const [filter, setFilter] = useState("");
+
+    const visible = useMemo(() => {
+        const query = filter.trim().toLowerCase();
+        if (!query) return candidates;
+        return candidates.filter((repo) =>
+            `${repo.name} ${repo.description ?? ""} ${repo.language ?? ""}`.toLowerCase().includes(query)
+        );
+    }, [candidates, filter]);
+
+    const toggle = (name: string) => {
+        setChecked((current) =>
+            current.includes(name) ? current.filter((n) => n !== name) : [...current, name]
+        );
+    };
+
+    const navigate = (repos: string[]) => {
+        const params = new URLSearchParams(roleQuery);
+        if (repos.length > 0) params.set("repos", repos.join(","));
+        const query = params.toString();
+        startTransition(() => {
+            router.push(`/report/${encodeURIComponent(username)}${query ? `?${query}` : ""}`);
+        });
+    };
+
+    const unchanged =
+        checked.length === selected.length && checked.every((name) => selected.includes(name));
+
+    return (
+        <details className="group rounded-lg border border-white/5 bg-white/[0.02]" open={missing.length > 0}>
+            <summary className="flex items-center justify-between gap-2 px-4 py-3 cursor-pointer list-none text-sm md:text-base font-medium text-foreground hover:text-cyan-400 transition-colors">
+                <span className="flex items-center gap-2">
+                    <ListChecks className="h-4 w-4 text-cyan-400" />
+                    Choose repositories to analyze
+                    <span className="text-xs font-normal text-muted-foreground font-mono">
+                        {candidates.length < poolSize ? `top ${candidates.length} of ${poolSize}` : `${candidates.length} available`}
+                    </span>
+                </span>
+                <ChevronDown className="h-4 w-4 text-muted-foreground transition-transform group-open:rotate-180" />
+            </summary>
+
+            <div className="px-4 pb-4 space-y-3">
+                {missing.length > 0 && (
+                    <p className="text-sm text-yellow-300">
+                        Not found and skipped: {missing.join(", ")}
+                    </p>
+                )}
+
+                <Input
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter by name, description or language"
+                    aria-label="Filter repositories"
+                />
+
+                <ul className="max-h-80 overflow-y-auto divide-y divide-white/5 rounded-md border border-white/5">
+                    {visible.map((repo) => {
+                        const isChecked = checked.includes(repo.name);
+                        const disabled = !isChecked && checked.length >= maxSelected;
+                        return (
+                            <li key={repo.name}>
+                                <label
+                                    className={`flex items-start gap-3 px-3 py-2 text-sm ${disabled ? "opacity-40 cursor-not-allowed" : "cursor-pointer hover:bg-white/[0.04]"}`}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        className="mt-1 accent-cyan-400"
+                                        checked={isChecked}
+                                        disabled={disabled}
+                                        onChange={() => toggle(repo.name)}
+                                    />
+                                    <span className="flex-1 min-w-0">
+                                        <span className="flex items-center gap-2">
+                                            <span className="font-medium text-foreground break-all">{repo.name}</span>
+                                            {repo.fork && <Badge variant="outline" className="text-[10px] px-1.5 py-0">fork</Badge>}
+                                            {repo.archived && <Badge variant="outline" className="text-[10px] px-1.5 py-0">archived</Badge>}
+                                        </span>
+                                        {repo.description && (
+                                            <span className="block text-xs text-muted-foreground truncate">{repo.description}</span>
+                                        )}
+                                    </span>
+                                    <span className="flex items-center gap-2 text-xs text-muted-foreground font-mono shrink-0">
+                                        {repo.language}
+                                        <span className="flex items-center gap-0.5">
+                                            <Star className="h-3 w-3" />
+                                            {repo.stargazers_count}
+                                        </span>
+                                    </span>
+                                </label>
+                            </li>
+                        );
+                    })}
+                    {visible.length === 0 && (
+                        <li className="px-3 py-2 text-sm text-muted-foreground">No repositories match.</li>
+                    )}
+                </ul>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                        size="sm"
+                        disabled={isPending || checked.length === 0 || unchanged}
+                        onClick={() => navigate(checked)}
+                    >
+                        {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ListChecks className="h-4 w-4" />}
+                        Analyze {checked.length} selected
+                    </Button>
+                    {isManual && (
+                        <Button variant="ghost" size="sm" disabled={isPending} onClick={() => navigate([])}>
+                            <RotateCcw className="h-4 w-4" />
+                            Reset to automatic selection
+                        </Button>
+                    )}
+                    <span className="text-xs text-muted-foreground font-mono">
+                        {checked.length}/{maxSelected} max
+                    </span>
+                </div>
+            </div>
+        </details>
+    );
+}
@@ -0,0 +1,61 @@
+import { Badge } from "@/components/ui/badge";
+import { Box, FlaskConical, Package, Workflow } from "lucide-react";
+import type { RepoInsights } from "@/lib/types";
+
+interface RepoSignalsProps {
+    insights: RepoInsights | null;
+}
+
+/**
+ * Signals read from the repo's file tree: tests, CI, Docker,
+ * dependency count and detected frameworks.
+ */
+export function RepoSignals({ insights }: RepoSignalsProps) {
+    if (!insights) {
+        return (
+            <p className="mt-3 text-xs text-muted-foreground/60 font-mono">
+                File tree not inspected
+            </p>
+        );
+    }
+
+    const checks = [
+        { label: "Tests", icon: FlaskConical, present: insights.has_tests, detail: insights.test_paths.join(", ") },
+        { label: "CI", icon: Workflow, present: insights.has_ci, detail: insights.ci_workflows.join(", ") },
+        { label: "Docker", icon: Box, present: insights.has_docker, detail: "" },
+    ];
+
+    return (
+        <div className="mt-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-1.5">
+                {checks.map(({ label, icon: Icon, present, detail }) => (
+                    <Badge
+                        key={label}
+                        variant={present ? "success" : "outline"}
+                        className={`text-[10px] px-1.5 py-0 gap-1 ${present ? "" : "opacity-50 line-through"}`}
+                        title={present ? detail || undefined : `No ${label.toLowerCase()} found`}
+                    >
+                        <Icon className="h-3 w-3" />
+                        {label}
+                    </Badge>
+                ))}
+                {insights.has_typescript && (
+                    <Badge variant="default" className="text-[10px] px-1.5 py-0">
+                        TypeScript
+                    </Badge>
+                )}
+                {insights.frameworks.map((framework) => (
+                    <Badge key={framework} variant="default" className="text-[10px] px-1.5 py-0">
+                        {framework}
+                    </Badge>
+                ))}
+            </div>
+            <p className="flex items-center gap-1 text-xs text-muted-foreground font-mono">
+                <Package className="h-3 w-3" />
+                {insights.dependency_count} deps · {insights.file_count}
+                {insights.tree_truncated ? "+" : ""} files
+                {insights.manifests.length > 0 && ` · ${insights.manifests.join(", ")}`}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,441 @@
+import type { ReactNode } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AnimatedScore, AnimatedProgressBar } from "@/components/animated-score";
+import { ScoreBreakdown } from "@/components/score-breakdown";
+import { ScoreTrend } from "@/components/score-trend";
+import { RoleFitCard } from "@/components/role-fit";
+import { RepoSignals } from "@/components/repo-signals";
+import { ContributionHeatmap } from "@/components/contribution-heatmap";
+import type { AnalysisResult, GitHubProfileData, TrendPoint } from "@/lib/types";
+import {
+    AlertTriangle,
+    FileText,
+    Star,
+    GitFork,
+    ArrowLeft,
+    ExternalLink,
+    MapPin,
+    Building2,
+    Calendar,
+    Users,
+    Wrench,
+    BookOpen,
+    FolderTree,
+    Activity,
+    Rocket,
+    Cpu,
+    TrendingUp,
+    CalendarDays,
+} from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+
+interface ReportViewProps {
+    analysis: AnalysisResult;
+    profileData: GitHubProfileData;
+    history?: TrendPoint[]; // Omitted on snapshots: history keeps changing
+    toolbar: ReactNode; // Top-right actions (export, share)
+    notice?: ReactNode; // Shown above the profile header
+    partialAction?: ReactNode; // Inside the heuristic-only banner (e.g. retry)
+    repoControls?: ReactNode; // Above the analyzed repos (e.g. the repo picker)
+}
+
+/**
+ * The rendered report. Shared by the live report and saved snapshots,
+ * so a shared link looks exactly like the report it was saved from.
+ */
+export function ReportView({
+    analysis,
+    profileData,
+    history,
+    toolbar,
+    notice,
+    partialAction,
+    repoControls,
+}: ReportViewProps) {
+    const { user, repos } = profileData;
+
+    // console.log("AI Response:", analysis); // Debugging - REMOVED for cleanup
+
+    // Score color logic
+    // Score color logic - FIXED & ROBUST
+    // Fallback: AI Total -> AI Score -> Dimensions Calc -> Repo Count Estimate
+    const calculateFallbackScore = () => {
+        if (analysis.total_score) return analysis.total_score;
+        if (analysis.score) return analysis.score;
+
+        // Final fallback: Calculate based on pubic repos (capped at 70 for "decent activity")
+        const repoScore = Math.min(repos.length * 5, 70);
+        return Math.max(repoScore, 40); // Never show 0 if they have repos
+    };
+
+    const scoreVal = calculateFallbackScore();
+
+    const scoreColor =
+        scoreVal < 50 ? "red" : scoreVal < 80 ? "yellow" : "green";
+    const scoreBarClass =
+        scoreVal < 50
+            ? "score-bar-red"
+            : scoreVal < 80
+                ? "score-bar-yellow"
+                : "score-bar-green";
+
+    // Verdict styling
+    const verdictVariant =
+        analysis.recruiter_verdict === "Strong Hire"
+            ? "success" as const
+            : analysis.recruiter_verdict === "Interview"
+                ? "warning" as const
+                : "destructive" as const;
+
+    // Account age, as of when the data was fetched (snapshots render the same forever)
+    const createdDate = new Date(user.created_at);
+    const accountAge = Math.floor(
+        (new Date(profileData.fetchedAt).getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24 * 365)
+    );
+
+    return (
+        <main className="relative min-h-screen p-4 md:p-8">
+            <div className="max-w-5xl mx-auto space-y-6">
+                {/* Back Button + Toolbar */}
+                <div className="flex items-center justify-between gap-2 mb-2">
+                    <Link href="/">
+                        <Button variant="ghost" size="sm">
+                            <ArrowLeft className="h-4 w-4 mr-1" />
+                            New Scan
+                        </Button>
+                    </Link>
+                    <div className="flex flex-wrap justify-end gap-2">{toolbar}</div>
+                </div>
+
+                {notice}
+
+                {/* ====== DEGRADED RESULT BANNERS ====== */}
+                {analysis.isPartial && (
+                    <Alert className="border-yellow-500/30 bg-yellow-500/10 text-yellow-200">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>Heuristic-only result: AI analysis unavailable</AlertTitle>
+                        <AlertDescription className="space-y-3">
+                            <p>
+                                {analysis.partialReason} The score below comes from the rule engine only,
+                                and the commentary is generated from it. No recruiter verdict is given.
+                            </p>
+                            {partialAction}
+                        </AlertDescription>
+                    </Alert>
+                )}
+                {analysis.isMockData && (
+                    <Alert className="border-yellow-500/30 bg-yellow-500/10 text-yellow-200">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>Demo data</AlertTitle>
+                        <AlertDescription>
+                            This report shows sample data, not an analysis of @{user.login}.
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                {/* ====== HEADER: User Profile ====== */}
+                <div className="animate-fade-in-up">
+                    <Card>
+                        <CardContent className="pt-6">
+                            <div className="flex flex-col sm:flex-row items-center sm:items-start gap-5">
+                                {/* Avatar */}
+                                <div className="relative shrink-0">
+                                    <Image
+                                        src={user.avatar_url}
+                                        alt={user.login}
+                                        width={88}
+                                        height={88}
+                                        className="rounded-xl border-2 border-white/10"
+                                    />
+                                    <div
+                                        className={`absolute -bottom-1 -right-1 w-5 h-5 rounded-full border-2 border-[#0a0a0f] ${scoreColor === "green"
+                                            ? "bg-emerald-400"
+                                            : scoreColor === "yellow"
+                                                ? "bg-yellow-400"
+                                                : "bg-red-400"
+                                            }`}
+                                    />
+                                </div>
+
+                                {/* Info */}
+                                <div className="flex-1 text-center sm:text-left space-y-2 min-w-0">
+                                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                                        <h1 className="text-2xl md:text-3xl font-bold text-foreground truncate">
+                                            {user.name || user.login}
+                                        </h1>
+                                        <a
+                                            href={user.html_url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="inline-flex items-center gap-1 text-sm md:text-base text-cyan-400 hover:text-cyan-300 transition-colors"
+                                        >
+                                            @{user.login}
+                                            <ExternalLink className="h-3 w-3" />
+                                        </a>
+                                    </div>
+
+                                    {user.bio && (
+                                        <p className="text-lg text-zinc-300 max-w-2xl leading-relaxed">
+                                            {user.bio}
+                                        </p>
+                                    )}
+
+                                    <div className="flex flex-wrap items-center justify-center sm:justify-start gap-3 text-xs md:text-sm text-muted-foreground">
+                                        {user.company && (
+                                            <span className="flex items-center gap-1">
+                                                <Building2 className="h-3 w-3" /> {user.company}
+                                            </span>
+                                        )}
+                                        {user.location && (
+                                            <span className="flex items-center gap-1">
+                                                <MapPin className="h-3 w-3" /> {user.location}
+                                            </span>
+                                        )}
+                                        <span className="flex items-center gap-1">
+                                            <Users className="h-3 w-3" /> {user.followers} followers
+                                        </span>
+                                        <span className="flex items-center gap-1">
+                                            <Calendar className="h-3 w-3" /> {accountAge}yr old account
+                                        </span>
+                                    </div>
+                                </div>
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* ====== SCORE CARD ====== */}
+                <div className="animate-fade-in-up-delay-1">
+                    <Card className="overflow-hidden">
+                        <CardHeader>
+                            <CardTitle className="flex items-center justify-between text-lg md:text-xl">
+                                <span>
+                                    {analysis.isPartial ? "Heuristic Score (rule engine only)" : "Hiring Signal Score"}
+                                </span>
+                                <AnimatedScore score={scoreVal} />
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <AnimatedProgressBar
+                                score={scoreVal}
+                                indicatorClassName={scoreBarClass}
+                                className="h-4 w-full"
+                            />
+                            <p className="text-lg md:text-xl text-zinc-300 leading-relaxed font-medium">
+                                {analysis.summary}
+                            </p>
+                            <div className="flex gap-2 flex-wrap">
+                                {analysis.isPartial || analysis.isMockData ? (
+                                    <Badge variant="outline" className="text-sm px-3 py-1">
+                                        {analysis.isPartial ? "Heuristic only" : "Demo data"}
+                                    </Badge>
+                                ) : (
+                                    <Badge variant={verdictVariant} className="text-sm px-3 py-1">
+                                        {analysis.recruiter_verdict}
+                                    </Badge>
+                                )}
+                            </div>
+                            {analysis.score_breakdown && (
+                                <ScoreBreakdown breakdown={analysis.score_breakdown} />
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* ====== ROLE FIT ====== */}
+                {analysis.role_fit && (
+                    <div className="animate-fade-in-up-delay-1">
+                        <RoleFitCard roleFit={analysis.role_fit} />
+                    </div>
+                )}
+
+                {/* ====== DIMENSION SCORES ====== */}
+                <div className="animate-fade-in-up-delay-2 grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+                    {/* Dimension Breakdown */}
+                    <Card className="md:col-span-2">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-cyan-400 text-lg md:text-xl">
+                                <Activity className="h-5 w-5" />
+                                Dimension Scores
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="space-y-6">
+                                {([
+                                    { key: "documentation" as const, label: "Documentation", icon: BookOpen },
+                                    { key: "code_structure" as const, label: "Code Structure", icon: FolderTree },
+                                    { key: "consistency" as const, label: "Consistency", icon: Activity },
+                                    { key: "impact" as const, label: "Impact", icon: Rocket },
+                                    { key: "technical_depth" as const, label: "Technical Depth", icon: Cpu },
+                                ]).map(({ key, label, icon: Icon }) => {
+                                    const dim = analysis.dimensions[key];
+                                    if (!dim) return null; // Defensive: results are schema-validated upstream
+                                    const pct = (dim.score / 10) * 100;
+                                    const barColor = dim.score >= 7 ? "bg-emerald-400" : dim.score >= 4 ? "bg-yellow-400" : "bg-red-400";
+                                    return (
+                                        <div key={key} className="space-y-2">
+                                            <div className="flex items-center justify-between text-sm md:text-base">
+                                                <span className="flex items-center gap-2 font-medium text-foreground">
+                                                    <Icon className="h-4 w-4 md:h-5 md:w-5 text-cyan-400/70" />
+                                                    {label}
+                                                </span>
+                                                <span className="font-mono text-muted-foreground font-semibold">{dim.score}/10</span>
+                                            </div>
+                                            <div className="h-2.5 w-full rounded-full bg-white/10 overflow-hidden">
+                                                <div
+                                                    className={`h-full rounded-full transition-all duration-700 ${barColor}`}
+                                                    style={{ width: `${pct}%` }}
+                                                />
+                                            </div>
+                                            <p className="text-sm text-muted-foreground">{dim.comment}</p>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* ====== COMMIT ACTIVITY ====== */}
+                <div className="animate-fade-in-up-delay-2">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-cyan-400 text-lg md:text-xl">
+                                <CalendarDays className="h-5 w-5" />
+                                Commit Activity
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <ContributionHeatmap activity={profileData.activity ?? null} />
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* ====== SCORE HISTORY ====== */}
+                {history && (
+                    <div className="animate-fade-in-up-delay-2">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2 text-cyan-400 text-lg md:text-xl">
+                                    <TrendingUp className="h-5 w-5" />
+                                    Score History
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <ScoreTrend points={history} />
+                            </CardContent>
+                        </Card>
+                    </div>
+                )}
+
+                {/* ====== ACTIONABLE FEEDBACK ====== */}
+                <div className="animate-fade-in-up-delay-3">
+                    <Card className="border-cyan-500/50 shadow-[0_0_15px_rgba(6,182,212,0.15)] bg-cyan-950/10">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-cyan-400 text-lg md:text-xl">
+                                <Wrench className="h-5 w-5" />
+                                Actionable Feedback
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <ul className="space-y-4">
+                                {analysis.actionable_feedback.map((item, i) => (
+                                    <li key={i} className="flex items-start gap-3 text-base">
+                                        <Wrench className="h-5 w-5 text-cyan-400 mt-0.5 shrink-0" />
+                                        <span className="text-zinc-300 leading-relaxed">{item}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* ====== REPOSITORY AUDIT ====== */}
+                <div className="animate-fade-in-up-delay-3">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-lg md:text-xl">
+                                <FileText className="h-5 w-5 text-cyan-400" />
+                                Repository Audit
+                                {profileData.selection && (
+                                    <span className="text-xs font-normal text-muted-foreground font-mono">
+                                        {repos.length} of {profileData.selection.pool_size} repos ·{" "}
+                                        {profileData.selection.source === "manual"
+                                            ? "chosen manually"
+                                            : profileData.selection.pinned.length > 0
+                                                ? `${profileData.selection.pinned.length} pinned, rest ranked by impact`
+                                                : "ranked by impact"}
+                                    </span>
+                                )}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {repoControls}
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {repos.map((repo) => (
+                                    <a
+                                        key={repo.name}
+                                        href={repo.html_url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="group flex items-start gap-3 p-4 rounded-lg border border-white/5 bg-white/[0.02] hover:bg-white/[0.06] hover:border-white/10 transition-all duration-200"
+                                    >
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center gap-2 mb-1">
+                                                <span className="font-semibold text-base text-foreground break-all group-hover:text-cyan-400 transition-colors">
+                                                    {repo.name}
+                                                </span>
+                                                {repo.readme_content ? (
+                                                    <Badge variant="success" className="text-[10px] px-1.5 py-0 shrink-0">
+                                                        README
+                                                    </Badge>
+                                                ) : (
+                                                    <Badge variant="destructive" className="text-[10px] px-1.5 py-0 shrink-0">
+                                                        No README
+                                                    </Badge>
+                                                )}
+                                            </div>
+                                            {repo.description && (
+                                                <p className="text-sm text-muted-foreground truncate">
+                                                    {repo.description}
+                                                </p>
+                                            )}
+                                            <div className="flex items-center gap-3 mt-3 text-xs md:text-sm text-muted-foreground">
+                                                {repo.language && (
+                                                    <span className="flex items-center gap-1">
+                                                        <span className="w-2 h-2 rounded-full bg-cyan-400" />
+                                                        {repo.language}
+                                                    </span>
+                                                )}
+                                                <span className="flex items-center gap-1">
+                                                    <Star className="h-3 w-3" />
+                                                    {repo.stargazers_count}
+                                                </span>
+                                                <span className="flex items-center gap-1">
+                                                    <GitFork className="h-3 w-3" />
+                                                    {repo.forks_count}
+                                                </span>
+                                            </div>
+                                            <RepoSignals insights={repo.insights ?? null} />
+                                        </div>
+                                        <ExternalLink className="h-4 w-4 text-muted-foreground/40 group-hover:text-cyan-400 transition-colors shrink-0 mt-1" />
+                                    </a>
+                                ))}
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* Footer */}
+                <footer className="text-center text-xs text-muted-foreground py-4 font-mono">
+                    <span className="text-cyan-400/60">$</span> Analysis generated at{" "}
+                    {new Date(profileData.fetchedAt).toLocaleString()}
+                </footer>
+            </div>
+        </main>
+    );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw } from "lucide-react";
+
+/**
+ * Re-runs the report's server render. Partial results are never cached,
+ * so a refresh retries the AI analysis.
+ */
+export function RetryAnalysisButton() {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+
+    return (
+        <Button
+            variant="outline"
+            size="sm"
+            disabled={isPending}
+            onClick={() => startTransition(() => router.refresh())}
+        >
+            {isPending ? (
+                <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Retrying AI analysis...
+                </>
+            ) : (
+                <>
+                    <RefreshCw className="h-4 w-4" />
+                    Retry AI analysis
+                </>
+            )}
+        </Button>
+    );
+}
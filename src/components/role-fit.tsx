@@ -0,0 +1,81 @@
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Briefcase, CheckCircle2, XCircle } from "lucide-react";
+import type { RoleFit } from "@/lib/types";
+
+interface RoleFitCardProps {
+    roleFit: RoleFit;
+}
+
+/**
+ * Role fit score with matched skills (and the repos proving them)
+ * and missing skills for the requested role.
+ */
+export function RoleFitCard({ roleFit }: RoleFitCardProps) {
+    const barClass =
+        roleFit.score < 50 ? "score-bar-red" : roleFit.score < 80 ? "score-bar-yellow" : "score-bar-green";
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-4 text-lg md:text-xl">
+                    <span className="flex items-center gap-2 text-cyan-400 min-w-0">
+                        <Briefcase className="h-5 w-5 shrink-0" />
+                        <span className="truncate">Role Fit: {roleFit.role_title}</span>
+                    </span>
+                    <span className="font-mono text-2xl font-bold text-foreground shrink-0">
+                        {roleFit.score}
+                        <span className="text-sm text-muted-foreground">/100</span>
+                    </span>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-5">
+                <Progress value={roleFit.score} indicatorClassName={barClass} />
+                <p className="text-xs text-muted-foreground font-mono">
+                    Seniority: {roleFit.seniority}
+                    {roleFit.candidate_seniority && ` (candidate: ${roleFit.candidate_seniority})`} ·{" "}
+                    {roleFit.matched_skills.length} of{" "}
+                    {roleFit.matched_skills.length + roleFit.missing_skills.length} required skills evidenced
+                </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <h3 className="flex items-center gap-2 text-sm font-semibold text-emerald-400">
+                            <CheckCircle2 className="h-4 w-4" />
+                            Matched Skills
+                        </h3>
+                        {roleFit.matched_skills.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">None of the required skills are evidenced.</p>
+                        ) : (
+                            <ul className="space-y-1.5">
+                                {roleFit.matched_skills.map(({ skill, evidence }) => (
+                                    <li key={skill} className="text-sm">
+                                        <Badge variant="success" className="mr-2">{skill}</Badge>
+                                        <span className="text-xs text-muted-foreground">{evidence.join(" · ")}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <h3 className="flex items-center gap-2 text-sm font-semibold text-red-400">
+                            <XCircle className="h-4 w-4" />
+                            Missing Skills
+                        </h3>
+                        {roleFit.missing_skills.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">Every required skill is evidenced.</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-1.5">
+                                {roleFit.missing_skills.map((skill) => (
+                                    <Badge key={skill} variant="destructive">{skill}</Badge>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,107 @@
+import { Calculator, ChevronDown, Lock, Minus, Plus } from "lucide-react";
+import type { ScoreAdjustment, ScoreBreakdown as ScoreBreakdownData } from "@/lib/types";
+
+interface ScoreBreakdownProps {
+    breakdown: ScoreBreakdownData;
+}
+
+/**
+ * Expandable ledger showing how the total score was calculated:
+ * base → bonuses → penalties → caps, with the evidence for each line.
+ * Uses native <details> so it works without client JS.
+ */
+export function ScoreBreakdown({ breakdown }: ScoreBreakdownProps) {
+    return (
+        <details className="group rounded-lg border border-white/5 bg-white/[0.02]">
+            <summary className="flex items-center justify-between gap-2 px-4 py-3 cursor-pointer list-none text-sm md:text-base font-medium text-foreground hover:text-cyan-400 transition-colors">
+                <span className="flex items-center gap-2">
+                    <Calculator className="h-4 w-4 text-cyan-400" />
+                    How this score was calculated
+                </span>
+                <ChevronDown className="h-4 w-4 text-muted-foreground transition-transform group-open:rotate-180" />
+            </summary>
+
+            <div className="px-4 pb-4 space-y-1 font-mono text-sm">
+                <LedgerRow
+                    label={`Base score (${breakdown.profile_type})`}
+                    value={String(breakdown.base)}
+                    evidence={[breakdown.base_reason]}
+                />
+
+                {breakdown.bonuses.map((bonus) => (
+                    <AdjustmentRow key={bonus.rule} adjustment={bonus} />
+                ))}
+                {breakdown.penalties.map((penalty) => (
+                    <AdjustmentRow key={penalty.rule} adjustment={penalty} />
+                ))}
+
+                <LedgerRow
+                    label="Subtotal"
+                    value={String(breakdown.raw_score)}
+                    className="border-t border-white/10 pt-2"
+                />
+
+                {breakdown.caps.map((cap) => (
+                    <LedgerRow
+                        key={cap.rule}
+                        icon={<Lock className="h-3.5 w-3.5 text-yellow-400" />}
+                        label={`Cap: ${cap.label}`}
+                        value={`≤ ${cap.limit}`}
+                        valueClassName="text-yellow-400"
+                        evidence={cap.evidence}
+                    />
+                ))}
+
+                <LedgerRow
+                    label="Final score"
+                    value={String(breakdown.final_score)}
+                    className="border-t border-white/10 pt-2 font-semibold text-foreground"
+                    valueClassName="text-cyan-400"
+                />
+            </div>
+        </details>
+    );
+}
+
+function AdjustmentRow({ adjustment }: { adjustment: ScoreAdjustment }) {
+    const isBonus = adjustment.points > 0;
+    return (
+        <LedgerRow
+            icon={isBonus
+                ? <Plus className="h-3.5 w-3.5 text-emerald-400" />
+                : <Minus className="h-3.5 w-3.5 text-red-400" />}
+            label={adjustment.label}
+            value={`${isBonus ? "+" : ""}${adjustment.points}`}
+            valueClassName={isBonus ? "text-emerald-400" : "text-red-400"}
+            evidence={adjustment.evidence}
+        />
+    );
+}
+
+interface LedgerRowProps {
+    label: string;
+    value: string;
+    icon?: React.ReactNode;
+    evidence?: string[];
+    className?: string;
+    valueClassName?: string;
+}
+
+function LedgerRow({ label, value, icon, evidence, className, valueClassName }: LedgerRowProps) {
+    return (
+        <div className={`py-1.5 text-muted-foreground ${className ?? ""}`}>
+            <div className="flex items-center justify-between gap-4">
+                <span className="flex items-center gap-2">
+                    {icon}
+                    {label}
+                </span>
+                <span className={`shrink-0 ${valueClassName ?? ""}`}>{value}</span>
+            </div>
+            {evidence && evidence.length > 0 && (
+                <p className="text-xs text-muted-foreground/70 pl-5.5 mt-0.5 break-words">
+                    {evidence.join(" · ")}
+                </p>
+            )}
+        </div>
+    );
+}
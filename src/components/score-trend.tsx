@@ -0,0 +1,134 @@
+import type { DimensionKey, TrendPoint } from "@/lib/types";
+
+interface ScoreTrendProps {
+    points: TrendPoint[];
+}
+
+// --- Chart geometry (SVG user units) ---
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD_X = 36;
+const PAD_Y = 16;
+
+const SERIES: { key: "total" | DimensionKey; label: string; color: string }[] = [
+    { key: "total", label: "Total", color: "#22d3ee" },
+    { key: "documentation", label: "Documentation", color: "#a78bfa" },
+    { key: "code_structure", label: "Code Structure", color: "#f472b6" },
+    { key: "consistency", label: "Consistency", color: "#facc15" },
+    { key: "impact", label: "Impact", color: "#34d399" },
+    { key: "technical_depth", label: "Technical Depth", color: "#fb923c" },
+];
+
+/** Every series is plotted on a 0-100 scale (dimensions ×10). */
+function valueOf(point: TrendPoint, key: (typeof SERIES)[number]["key"]): number {
+    return key === "total" ? point.total_score : point.dimensions[key] * 10;
+}
+
+function formatDelta(delta: number): string {
+    if (delta === 0) return "±0";
+    return delta > 0 ? `+${delta}` : String(delta);
+}
+
+/**
+ * Line chart of total score and each dimension across stored scans,
+ * followed by a scan-by-scan list with score deltas.
+ */
+export function ScoreTrend({ points }: ScoreTrendProps) {
+    if (points.length < 2) {
+        return (
+            <p className="text-sm text-muted-foreground font-mono">
+                {points.length === 0 ? "No stored scans yet." : "First scan recorded."} The trend appears after the next analysis.
+            </p>
+        );
+    }
+
+    const x = (i: number) => PAD_X + (i / (points.length - 1)) * (WIDTH - PAD_X * 2);
+    const y = (v: number) => HEIGHT - PAD_Y - (v / 100) * (HEIGHT - PAD_Y * 2);
+
+    return (
+        <div className="space-y-4">
+            <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto"
+                role="img"
+                aria-label="Score trend across scans"
+            >
+                {/* Grid lines */}
+                {[0, 25, 50, 75, 100].map((v) => (
+                    <g key={v}>
+                        <line
+                            x1={PAD_X}
+                            x2={WIDTH - PAD_X}
+                            y1={y(v)}
+                            y2={y(v)}
+                            stroke="rgba(255,255,255,0.06)"
+                        />
+                        <text x={PAD_X - 8} y={y(v) + 4} textAnchor="end" fontSize="10" fill="rgba(255,255,255,0.4)">
+                            {v}
+                        </text>
+                    </g>
+                ))}
+
+                {/* Series */}
+                {SERIES.map(({ key, color }) => (
+                    <g key={key}>
+                        <polyline
+                            fill="none"
+                            stroke={color}
+                            strokeWidth={key === "total" ? 3 : 1.5}
+                            strokeOpacity={key === "total" ? 1 : 0.7}
+                            points={points.map((p, i) => `${x(i)},${y(valueOf(p, key))}`).join(" ")}
+                        />
+                        {points.map((p, i) => (
+                            <circle
+                                key={i}
+                                cx={x(i)}
+                                cy={y(valueOf(p, key))}
+                                r={key === "total" ? 4 : 2.5}
+                                fill={color}
+                            />
+                        ))}
+                    </g>
+                ))}
+            </svg>
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                {SERIES.map(({ key, label, color }) => (
+                    <span key={key} className="flex items-center gap-1.5">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+                        {label}
+                        {key !== "total" && <span className="opacity-60">(×10)</span>}
+                    </span>
+                ))}
+            </div>
+
+            {/* Scan list (newest first) */}
+            <ul className="divide-y divide-white/5 text-sm font-mono">
+                {points
+                    .map((point, i) => ({ point, delta: i > 0 ? point.total_score - points[i - 1].total_score : null }))
+                    .reverse()
+                    .map(({ point, delta }) => (
+                        <li key={point.analyzedAt} className="flex items-center justify-between gap-4 py-2">
+                            <span className="text-muted-foreground">
+                                {new Date(point.analyzedAt).toLocaleString()}
+                            </span>
+                            <span className="flex items-center gap-3">
+                                <span className="text-foreground">{point.total_score}/100</span>
+                                {delta !== null && (
+                                    <span
+                                        className={
+                                            delta > 0 ? "text-emerald-400" : delta < 0 ? "text-red-400" : "text-muted-foreground"
+                                        }
+                                    >
+                                        {formatDelta(delta)}
+                                    </span>
+                                )}
+                                <span className="text-muted-foreground text-xs">{point.recruiter_verdict}</span>
+                            </span>
+                        </li>
+                    ))}
+            </ul>
+        </div>
+    );
+}
@@ -6,17 +6,53 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Search, Loader2 } from "lucide-react";
 import { extractUsername } from "@/lib/utils";
+import { MAX_COMPARE_USERS, MIN_COMPARE_USERS, parseCompareUsers } from "@/lib/compare";
+import { parseJobDescription, ROLE_PROFILES, roleToSearchParams } from "@/lib/roles";
+import type { RoleProfile } from "@/lib/types";
+
+const CUSTOM_ROLE = "custom";
 
 export function SearchForm() {
     const [inputValue, setInputValue] = useState("");
     const [error, setError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
+    const [roleId, setRoleId] = useState("");
+    const [jobDescription, setJobDescription] = useState("");
     const router = useRouter();
 
+    /** Resolves the selected role; undefined means the JD had no recognizable skills. */
+    const resolveRole = (): RoleProfile | null | undefined => {
+        if (!roleId) return null;
+        if (roleId !== CUSTOM_ROLE) return ROLE_PROFILES.find((r) => r.id === roleId) ?? null;
+        const parsed = parseJobDescription(jobDescription);
+        return parsed.skills.length > 0 ? parsed : undefined;
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
 
+        const role = resolveRole();
+        if (role === undefined) {
+            setError("No recognizable skills found in the job description.");
+            return;
+        }
+        const roleQuery = role ? roleToSearchParams(role).toString() : "";
+
+        // Comma-separated input → side-by-side comparison
+        if (inputValue.includes(",")) {
+            const usernames = parseCompareUsers(inputValue);
+            if (usernames.length < MIN_COMPARE_USERS || usernames.length > MAX_COMPARE_USERS) {
+                setError(`Enter between ${MIN_COMPARE_USERS} and ${MAX_COMPARE_USERS} valid usernames to compare.`);
+                return;
+            }
+            setIsLoading(true);
+            router.push(
+                `/compare?users=${usernames.map(encodeURIComponent).join(",")}${roleQuery ? `&${roleQuery}` : ""}`
+            );
+            return;
+        }
+
         const username = extractUsername(inputValue);
         if (!username) {
             setError("Please enter a valid GitHub username or profile URL.");
@@ -24,7 +60,7 @@ export function SearchForm() {
         }
 
         setIsLoading(true);
-        router.push(`/report/${encodeURIComponent(username)}`);
+        router.push(`/report/${encodeURIComponent(username)}${roleQuery ? `?${roleQuery}` : ""}`);
     };
 
     return (
@@ -58,11 +94,46 @@ export function SearchForm() {
                 </Button>
             </div>
 
+            <div className="flex flex-col gap-2 w-full">
+                <select
+                    value={roleId}
+                    onChange={(e) => {
+                        setRoleId(e.target.value);
+                        if (error) setError(null);
+                    }}
+                    disabled={isLoading}
+                    aria-label="Evaluate against a role"
+                    className="h-10 w-full rounded-lg border border-white/10 bg-white/5 px-3 text-sm text-foreground font-mono transition-all duration-200 focus:outline-none focus:border-cyan-400/50 focus:ring-2 focus:ring-cyan-400/20 disabled:opacity-50"
+                >
+                    <option value="">Generic rubric (no specific role)</option>
+                    {ROLE_PROFILES.map((role) => (
+                        <option key={role.id} value={role.id}>
+                            {role.title} ({role.seniority})
+                        </option>
+                    ))}
+                    <option value={CUSTOM_ROLE}>Paste a job description...</option>
+                </select>
+
+                {roleId === CUSTOM_ROLE && (
+                    <textarea
+                        value={jobDescription}
+                        onChange={(e) => {
+                            setJobDescription(e.target.value);
+                            if (error) setError(null);
+                        }}
+                        disabled={isLoading}
+                        rows={5}
+                        placeholder="Paste the job description here. Skills and seniority are extracted automatically..."
+                        className="w-full rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-foreground placeholder:text-zinc-500 font-mono transition-all duration-200 focus:outline-none focus:border-cyan-400/50 focus:ring-2 focus:ring-cyan-400/20 disabled:opacity-50 resize-y"
+                    />
+                )}
+            </div>
+
             {error ? (
                 <p className="text-sm text-red-400 px-1">{error}</p>
             ) : (
                 <p className="text-xs text-zinc-500 px-1">
-                    Accepts profile URLs or usernames.
+                    Accepts profile URLs or usernames. Separate up to {MAX_COMPARE_USERS} with commas to compare.
                 </p>
             )}
         </form>
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useSyncExternalStore, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Copy, Link2, Loader2, Share2, X } from "lucide-react";
+import { createShareLink, revokeShareLink } from "@/app/actions";
+import type { RoleProfile } from "@/lib/types";
+
+// Revoke tokens stay in the creator's browser; nobody else can revoke the link
+const tokenKey = (id: string) => `share-revoke:${id}`;
+
+function subscribeStorage(onChange: () => void): () => void {
+    window.addEventListener("storage", onChange);
+    return () => window.removeEventListener("storage", onChange);
+}
+
+function formatExpiry(expiresAt: string | null): string {
+    return expiresAt ? `Expires ${new Date(expiresAt).toLocaleDateString()}` : "Never expires";
+}
+
+interface ShareReportButtonProps {
+    username: string;
+    role: RoleProfile | null;
+    repos: string[]; // Manual selection, empty = automatic
+    expiryDays: number[]; // Offered expiry options besides "never"
+}
+
+interface CreatedLink {
+    id: string;
+    url: string;
+    revokeToken: string;
+    expiresAt: string | null;
+}
+
+/**
+ * "Save & share": freezes the current report as a snapshot and shows its
+ * /r/{id} permalink, with copy and revoke.
+ */
+export function ShareReportButton({ username, role, repos, expiryDays }: ShareReportButtonProps) {
+    const [open, setOpen] = useState(false);
+    const [expiry, setExpiry] = useState("never");
+    const [link, setLink] = useState<CreatedLink | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const [isPending, startTransition] = useTransition();
+
+    const create = () => {
+        setError(null);
+        startTransition(async () => {
+            const result = await createShareLink(username, role, repos, expiry === "never" ? null : Number(expiry));
+            if (!result.success || !result.id || !result.revokeToken) {
+                setError(result.error ?? "Could not create the link.");
+                return;
+            }
+            localStorage.setItem(tokenKey(result.id), result.revokeToken);
+            setLink({
+                id: result.id,
+                url: `${window.location.origin}/r/${result.id}`,
+                revokeToken: result.revokeToken,
+                expiresAt: result.expiresAt ?? null,
+            });
+        });
+    };
+
+    const revoke = (current: CreatedLink) => {
+        startTransition(async () => {
+            const result = await revokeShareLink(current.id, current.revokeToken);
+            if (!result.success) {
+                setError(result.error ?? "Could not revoke the link.");
+                return;
+            }
+            localStorage.removeItem(tokenKey(current.id));
+            setLink(null);
+        });
+    };
+
+    const copy = async (url: string) => {
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    return (
+        <div className="relative">
+            <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>
+                <Share2 className="h-4 w-4" />
+                Save & share
+            </Button>
+
+            {open && (
+                <div className="absolute right-0 z-20 mt-2 w-80 space-y-3 rounded-lg border border-white/10 bg-[#0a0a0f] p-4 shadow-xl">
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-semibold text-foreground">Share a frozen copy</span>
+                        <button type="button" onClick={() => setOpen(false)} className="text-muted-foreground hover:text-foreground">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    {link ? (
+                        <>
+                            <div className="flex gap-2">
+                                <Input readOnly value={link.url} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                                <Button variant="outline" size="sm" onClick={() => copy(link.url)} aria-label="Copy link">
+                                    {copied ? <Check className="h-4 w-4 text-emerald-400" /> : <Copy className="h-4 w-4" />}
+                                </Button>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                {formatExpiry(link.expiresAt)}. The link always shows this exact report.
+                            </p>
+                            <div className="flex gap-2">
+                                <a href={link.url} target="_blank" rel="noopener noreferrer">
+                                    <Button variant="outline" size="sm">
+                                        <Link2 className="h-4 w-4" />
+                                        Open
+                                    </Button>
+                                </a>
+                                <Button variant="outline" size="sm" disabled={isPending} onClick={() => revoke(link)}>
+                                    {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                                    Revoke link
+                                </Button>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <p className="text-xs text-muted-foreground">
+                                Saves this report as it is now. Later re-analyses won&apos;t change what the link shows.
+                            </p>
+                            <label className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                                Link expires
+                                <select
+                                    value={expiry}
+                                    onChange={(e) => setExpiry(e.target.value)}
+                                    disabled={isPending}
+                                    className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-foreground"
+                                >
+                                    <option value="never">Never</option>
+                                    {expiryDays.map((days) => (
+                                        <option key={days} value={days}>
+                                            In {days} day{days === 1 ? "" : "s"}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <Button size="sm" className="w-full" disabled={isPending} onClick={create}>
+                                {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Share2 className="h-4 w-4" />}
+                                Create link
+                            </Button>
+                        </>
+                    )}
+
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Shown on /r/{id}: lets the browser that created the link revoke it.
+ * Renders nothing elsewhere.
+ */
+export function RevokeShareButton({ id }: { id: string }) {
+    const router = useRouter();
+    const [error, setError] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+    const token = useSyncExternalStore(
+        subscribeStorage,
+        () => localStorage.getItem(tokenKey(id)),
+        () => null
+    );
+
+    if (!token) return null;
+
+    const revoke = () => {
+        startTransition(async () => {
+            const result = await revokeShareLink(id, token);
+            if (!result.success) {
+                setError(result.error ?? "Could not revoke the link.");
+                return;
+            }
+            localStorage.removeItem(tokenKey(id));
+            router.refresh();
+        });
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            {error && <span className="text-xs text-red-400">{error}</span>}
+            <Button variant="outline" size="sm" disabled={isPending} onClick={revoke}>
+                {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                Revoke link
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,111 @@
+import type { CommitActivity, ConsistencyMetric } from "./types";
+
+// ============================================
+// Commit Activity & Consistency
+// ============================================
+// Turns raw commit timestamps into daily/weekly counts over the last
+// 52 weeks and a consistency metric that rewards sustained activity,
+// not a single recent push. Fetching lives in ./github.
+
+// --- CONFIG ---
+export const ACTIVITY_WEEKS = 52;
+const RECENT_WEEKS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the activity window: the Sunday (00:00 UTC) 51 weeks before
+ * the week containing `now`, so the grid lines up like GitHub's.
+ */
+export function activityWindowStart(now: number): number {
+    const start = new Date(now);
+    start.setUTCHours(0, 0, 0, 0);
+    start.setUTCDate(start.getUTCDate() - start.getUTCDay() - (ACTIVITY_WEEKS - 1) * 7);
+    return start.getTime();
+}
+
+function longestRun(weeks: boolean[]): number {
+    let longest = 0;
+    let current = 0;
+    for (const active of weeks) {
+        current = active ? current + 1 : 0;
+        longest = Math.max(longest, current);
+    }
+    return longest;
+}
+
+/**
+ * Consistency from weekly counts (oldest first).
+ * Score: share of active weeks over the year (up to 6) plus share of
+ * active weeks in the last quarter (up to 4).
+ */
+export function measureConsistency(weeklyCommits: number[]): ConsistencyMetric {
+    const active = weeklyCommits.map((count) => count > 0);
+    const recent = active.slice(-RECENT_WEEKS);
+
+    // The current week is still in progress: an empty one doesn't break the streak
+    const streakWeeks = active[active.length - 1] ? active : active.slice(0, -1);
+    const lastInactive = streakWeeks.lastIndexOf(false);
+
+    const activeWeeks = active.filter(Boolean).length;
+    const recentActiveWeeks = recent.filter(Boolean).length;
+    const score = (activeWeeks / Math.max(active.length, 1)) * 6 + (recentActiveWeeks / RECENT_WEEKS) * 4;
+
+    return {
+        active_weeks: activeWeeks,
+        recent_active_weeks: recentActiveWeeks,
+        longest_streak_weeks: longestRun(active),
+        current_streak_weeks: streakWeeks.length - 1 - lastInactive,
+        score: Math.max(0, Math.min(10, Math.round(score))),
+    };
+}
+
+/**
+ * Buckets commit timestamps (ISO strings, grouped by repo) into the
+ * 52-week window ending at `now`. Commits outside the window are ignored.
+ */
+export function buildCommitActivity(
+    commitDates: Record<string, string[]>,
+    now: number,
+    truncated: boolean
+): CommitActivity {
+    const start = activityWindowStart(now);
+    const daily: number[] = new Array(ACTIVITY_WEEKS * 7).fill(0);
+    const perRepo: Record<string, number> = {};
+
+    for (const [repo, dates] of Object.entries(commitDates)) {
+        perRepo[repo] = 0;
+        for (const iso of dates) {
+            const time = Date.parse(iso);
+            if (Number.isNaN(time) || time > now) continue;
+            const day = Math.floor((time - start) / DAY_MS);
+            if (day < 0 || day >= daily.length) continue;
+            daily[day]++;
+            perRepo[repo]++;
+        }
+    }
+
+    const weekly = Array.from({ length: ACTIVITY_WEEKS }, (_, week) =>
+        daily.slice(week * 7, week * 7 + 7).reduce((sum, count) => sum + count, 0)
+    );
+
+    return {
+        since: new Date(start).toISOString(),
+        until: new Date(now).toISOString(),
+        daily_commits: daily,
+        weekly_commits: weekly,
+        total_commits: weekly.reduce((sum, count) => sum + count, 0),
+        per_repo: perRepo,
+        truncated,
+        consistency: measureConsistency(weekly),
+    };
+}
+
+/** Commits in the `days` days up to and including the window's end. */
+export function commitsInLastDays(activity: CommitActivity, days: number): number {
+    const start = Date.parse(activity.since);
+    const endDay = Math.floor((Date.parse(activity.until) - start) / DAY_MS);
+    return activity.daily_commits
+        .slice(Math.max(0, endDay - days + 1), endDay + 1)
+        .reduce((sum, count) => sum + count, 0);
+}
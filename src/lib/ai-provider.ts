@@ -0,0 +1,242 @@
+import OpenAI from "openai";
+import { env, type AIProviderName } from "./env";
+import { AINotConfiguredError } from "./errors";
+import type { AICommentary } from "./schema";
+import type { DimensionKey, GitHubProfileData, RoleFit, ScoreCard } from "./types";
+
+// ============================================
+// AI Provider Layer
+// ============================================
+// Selected via AI_PROVIDER in env.ts:
+// - "openrouter":        hosted models through OpenRouter
+// - "openai-compatible": any OpenAI-style endpoint (Ollama, llama.cpp, vLLM...)
+// - "offline":           no network; commentary generated from the scorecard
+//
+// Every provider returns raw text containing the commentary JSON, so
+// parsing and validation stay in one place (gemini.ts).
+
+/** Previous invalid output plus its validation errors, for a targeted repair prompt. */
+export interface AIRepairContext {
+    previousOutput: string;
+    errors: string[];
+}
+
+export interface AIRequest {
+    systemPrompt: string;
+    userMessage: string;
+    repair?: AIRepairContext;
+    // Structured inputs, for providers that do not call a model
+    profileData: GitHubProfileData;
+    scorecard: ScoreCard;
+    roleFit?: RoleFit;
+}
+
+export interface AIProvider {
+    name: AIProviderName;
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    complete(request: AIRequest): Promise<string>;
+}
+
+interface ProviderSettings {
+    model: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+// --- Per-provider defaults (overridable via AI_MODEL / AI_TEMPERATURE / AI_MAX_TOKENS) ---
+const PROVIDER_DEFAULTS: Record<AIProviderName, ProviderSettings> = {
+    "openrouter": { model: "openai/gpt-4o-mini", temperature: 0.4, maxTokens: 800 },
+    // Local models are slower to follow JSON instructions: cooler and with more room
+    "openai-compatible": { model: "llama3.1", temperature: 0.2, maxTokens: 1200 },
+    "offline": { model: "rule-engine", temperature: 0, maxTokens: 0 },
+};
+
+function resolveSettings(name: AIProviderName): ProviderSettings {
+    const defaults = PROVIDER_DEFAULTS[name];
+    const temperature = Number.parseFloat(env.AI_TEMPERATURE);
+    const maxTokens = Number.parseInt(env.AI_MAX_TOKENS, 10);
+    return {
+        model: env.AI_MODEL || defaults.model,
+        temperature: Number.isFinite(temperature) ? temperature : defaults.temperature,
+        maxTokens: Number.isFinite(maxTokens) && maxTokens > 0 ? maxTokens : defaults.maxTokens,
+    };
+}
+
+/**
+ * Shared implementation for OpenRouter and other OpenAI-compatible APIs.
+ */
+function createChatCompletionProvider(
+    name: AIProviderName,
+    client: OpenAI,
+    settings: ProviderSettings
+): AIProvider {
+    return {
+        name,
+        ...settings,
+        async complete({ systemPrompt, userMessage, repair }) {
+            const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+                { role: "system", content: systemPrompt },
+                { role: "user", content: userMessage },
+            ];
+
+            // Repair pass: show the model its own output and exactly what was wrong
+            if (repair) {
+                messages.push(
+                    { role: "assistant", content: repair.previousOutput },
+                    {
+                        role: "user",
+                        content:
+                            "Your JSON failed validation:\n" +
+                            repair.errors.map((e) => `- ${e}`).join("\n") +
+                            "\n\nReturn the corrected JSON only. Keep everything that was valid unchanged.",
+                    }
+                );
+            }
+
+            const completion = await client.chat.completions.create({
+                model: settings.model,
+                messages,
+                temperature: settings.temperature,
+                max_tokens: settings.maxTokens,
+                seed: 42, // Fixed seed = same input → same output (where supported)
+            });
+
+            const rawText = completion.choices[0]?.message?.content;
+            if (!rawText) {
+                throw new Error("Empty response from AI");
+            }
+            return rawText;
+        },
+    };
+}
+
+export function createOpenRouterProvider(): AIProvider {
+    if (!env.OPENROUTER_API_KEY) {
+        throw new AINotConfiguredError("OPENROUTER_API_KEY");
+    }
+
+    const client = new OpenAI({
+        baseURL: "https://openrouter.ai/api/v1",
+        apiKey: env.OPENROUTER_API_KEY,
+        defaultHeaders: {
+            "HTTP-Referer": "http://localhost:3000",
+            "X-Title": "GitHub Portfolio Analyzer",
+        },
+    });
+
+    return createChatCompletionProvider("openrouter", client, resolveSettings("openrouter"));
+}
+
+export function createOpenAICompatibleProvider(): AIProvider {
+    if (!env.AI_BASE_URL) {
+        throw new AINotConfiguredError("AI_BASE_URL", " (e.g. http://localhost:11434/v1)");
+    }
+
+    const client = new OpenAI({
+        baseURL: env.AI_BASE_URL,
+        apiKey: env.AI_API_KEY || "not-needed", // Local servers ignore the key, the SDK requires one
+    });
+
+    return createChatCompletionProvider("openai-compatible", client, resolveSettings("openai-compatible"));
+}
+
+// --- Offline Provider ---
+
+const DIMENSION_LABELS: Record<DimensionKey, string> = {
+    documentation: "Documentation",
+    code_structure: "Code structure",
+    consistency: "Consistency",
+    impact: "Impact",
+    technical_depth: "Technical depth",
+};
+
+function band(score: number): string {
+    if (score >= 8) return "is a clear strength";
+    if (score >= 5) return "is adequate but has room to grow";
+    return "is a weak spot";
+}
+
+/** Fix suggested for each penalty rule. */
+const PENALTY_FIXES: Record<string, string> = {
+    one_hit_wonder: "Build a second non-trivial project (deployed, tested, documented) so your best work is not a one-off.",
+    weak_documentation: "Add architecture notes, a diagram and design trade-offs to your main READMEs, not just install steps.",
+    stale_repos: "Archive abandoned repos and push meaningful updates to the projects you want recruiters to see.",
+};
+
+/**
+ * Builds commentary straight from the scorecard. Nothing leaves the
+ * machine, and the same profile always gets the same text.
+ * Also used for heuristic-only results when the AI is unavailable.
+ */
+export function buildOfflineCommentary({
+    profileData,
+    scorecard,
+    roleFit,
+}: Pick<AIRequest, "profileData" | "scorecard" | "roleFit">): AICommentary {
+    const { breakdown } = scorecard;
+    const adjustments = [...breakdown.bonuses, ...breakdown.penalties]
+        .map((a) => `${a.label} (${a.points > 0 ? "+" : ""}${a.points})`);
+    const caps = breakdown.caps.map((c) => `capped at ${c.limit}: ${c.label}`);
+
+    const summary = [
+        `Base Score: ${breakdown.base} (${breakdown.profile_type === "student" ? "Student" : "Professional"} Profile).`,
+        adjustments.length > 0 ? `Adjustments: ${adjustments.join("; ")}.` : "No bonuses or penalties applied.",
+        caps.length > 0 ? `Score ${caps.join("; ")}.` : "",
+        `Final score ${scorecard.total_score}/100 across ${profileData.repos.length} analyzed repos.`,
+        roleFit ? `Role fit for ${roleFit.role_title}: ${roleFit.score}/100.` : "",
+    ].filter(Boolean).join(" ");
+
+    const dimensions = Object.fromEntries(
+        (Object.keys(DIMENSION_LABELS) as DimensionKey[]).map((key) => [
+            key,
+            { comment: `${DIMENSION_LABELS[key]} ${band(scorecard.dimensions[key])} (${scorecard.dimensions[key]}/10).` },
+        ])
+    ) as AICommentary["dimensions"];
+    if (profileData.activity) {
+        const { consistency } = profileData.activity;
+        dimensions.consistency.comment +=
+            ` Commits in ${consistency.active_weeks} of the last 52 weeks, longest streak ${consistency.longest_streak_weeks} weeks.`;
+    }
+
+    const feedback = breakdown.penalties
+        .map((p) => PENALTY_FIXES[p.rule])
+        .filter((fix): fix is string => !!fix);
+    if (roleFit && roleFit.missing_skills.length > 0) {
+        feedback.push(`Ship a project that demonstrates ${roleFit.missing_skills.slice(0, 3).join(", ")} for the ${roleFit.role_title} role.`);
+    }
+    const weakest = (Object.keys(DIMENSION_LABELS) as DimensionKey[])
+        .sort((a, b) => scorecard.dimensions[a] - scorecard.dimensions[b])[0];
+    if (feedback.length < 3) {
+        feedback.push(`Focus next on ${DIMENSION_LABELS[weakest].toLowerCase()}, your lowest-scoring dimension.`);
+    }
+
+    return { summary, dimensions, actionable_feedback: feedback };
+}
+
+export function createOfflineProvider(): AIProvider {
+    return {
+        name: "offline",
+        ...resolveSettings("offline"),
+        async complete(request) {
+            return JSON.stringify(buildOfflineCommentary(request));
+        },
+    };
+}
+
+/**
+ * Creates the provider configured by AI_PROVIDER.
+ * Throws when the selected provider is missing required configuration.
+ */
+export function createAIProvider(): AIProvider {
+    switch (env.AI_PROVIDER) {
+        case "openai-compatible":
+            return createOpenAICompatibleProvider();
+        case "offline":
+            return createOfflineProvider();
+        case "openrouter":
+        default:
+            return createOpenRouterProvider();
+    }
+}
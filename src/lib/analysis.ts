@@ -0,0 +1,389 @@
+import { fetchGitHubData } from "./github";
+import { analyzeProfile, buildHeuristicAnalysis } from "./gemini";
+import { getLatestRecorded, recordAnalysis } from "./history";
+import { normalizeRole, roleCacheKey } from "./roles";
+import { parseRepoSelection, repoSelectionCacheKey } from "./repo-selection";
+import {
+    AIInvalidOutputError,
+    AINotConfiguredError,
+    AIQuotaExceededError,
+    AIUnavailableError,
+    AnalysisError,
+    GitHubAuthError,
+    GitHubRateLimitError,
+    UserNotFoundError,
+} from "./errors";
+import { publishProgress } from "./progress";
+import { env, envInt } from "./env";
+import { createStore } from "./store";
+import type { AnalysisResponse, AnalysisResult, ProgressReporter, RoleProfile } from "./types";
+import { extractUsername } from "./utils";
+
+// ============================================
+// Analysis Pipeline (server-only)
+// ============================================
+// Cache → GitHub Data → AI Analysis for one username. Rate limiting is
+// the caller's job: server actions limit per IP, batch jobs pace their queue.
+// Kept out of actions.ts so it is never exposed as a server action.
+
+// --- CACHE ---
+// Caches successful analysis results keyed by lowercase username
+// (plus the role, when analyzing against a job description, and the
+// repo selection, when the user picked repos manually).
+// Each entry is fresh for 10 minutes by default (CACHE_TTL_SECONDS).
+// After that it is still served for CACHE_STALE_SECONDS (default a day)
+// while a background run refreshes it (stale-while-revalidate). A refresh
+// that fails or comes back partial isn't retried for REFRESH_BACKOFF_MS.
+// The least recently used entries are evicted past CACHE_MAX_ENTRIES.
+// The backend is CACHE_STORE (see ./store), so instances behind a load
+// balancer can share results.
+// This prevents redundant API calls for the same profile.
+const CACHE_TTL_MS = envInt(env.CACHE_TTL_SECONDS, 10 * 60) * 1000;
+const CACHE_STALE_MS = envInt(env.CACHE_STALE_SECONDS, 24 * 60 * 60) * 1000;
+const REFRESH_BACKOFF_MS = 5 * 60 * 1000;
+
+interface CacheEntry {
+    response: AnalysisResponse;
+    timestamp: number;
+    refreshFailedAt?: number; // Last background refresh that failed or came back partial
+}
+
+interface CachedResult {
+    response: AnalysisResponse;
+    refreshDue: boolean; // Past the TTL and not backing off: serve, but refresh in the background
+}
+
+const analysisCache = createStore("analysis", { maxEntries: envInt(env.CACHE_MAX_ENTRIES, 500) });
+
+function cacheKey(username: string, role: RoleProfile | null, repos: string[]): string {
+    const roleKey = roleCacheKey(role);
+    const reposKey = repoSelectionCacheKey(repos);
+    return [
+        username.toLowerCase(),
+        roleKey,
+        reposKey && `repos:${reposKey}`,
+    ].filter(Boolean).join("|");
+}
+
+/** The cached response, or null on a miss. A failing store counts as a miss. */
+async function getCachedResult(key: string): Promise<CachedResult | null> {
+    let entry: CacheEntry | null;
+    try {
+        entry = await analysisCache.get<CacheEntry>(key);
+    } catch (error) {
+        console.warn(`[Cache] Lookup failed for ${key}:`, error);
+        return null;
+    }
+
+    if (!entry) return null;
+
+    const now = Date.now();
+    const age = now - entry.timestamp;
+    const stale = age > CACHE_TTL_MS;
+    const backingOff = entry.refreshFailedAt !== undefined && now - entry.refreshFailedAt < REFRESH_BACKOFF_MS;
+    console.log(
+        `[Cache] ${stale ? "STALE" : "HIT"} for: ${key} (age: ${Math.round(age / 1000)}s)` +
+        `${stale && backingOff ? ", refresh backing off" : ""}`
+    );
+    return { response: entry.response, refreshDue: stale && !backingOff };
+}
+
+/** Only complete, real results are cached; a retry re-runs the rest. */
+function isCacheable(response: AnalysisResponse): boolean {
+    return response.success && !!response.data && !response.data.isMockData && !response.data.isPartial;
+}
+
+async function setCachedResult(key: string, response: AnalysisResponse): Promise<void> {
+    try {
+        await analysisCache.set<CacheEntry>(key, { response, timestamp: Date.now() }, CACHE_TTL_MS + CACHE_STALE_MS);
+        console.log(`[Cache] STORED for: ${key} (${analysisCache.kind} store)`);
+    } catch (error) {
+        console.warn(`[Cache] Failed to store ${key}:`, error);
+    }
+}
+
+/**
+ * Marks the stale entry so failing refreshes aren't retried on every
+ * visit. Keeps its original timestamp and expiry.
+ */
+async function markRefreshFailed(key: string): Promise<void> {
+    try {
+        const entry = await analysisCache.get<CacheEntry>(key);
+        if (!entry) return;
+        const ttlMs = entry.timestamp + CACHE_TTL_MS + CACHE_STALE_MS - Date.now();
+        if (ttlMs <= 0) return;
+        await analysisCache.set<CacheEntry>(key, { ...entry, refreshFailedAt: Date.now() }, ttlMs);
+        console.log(`[Cache] Refresh failed for: ${key}, next attempt in ${REFRESH_BACKOFF_MS / 1000}s`);
+    } catch (error) {
+        console.warn(`[Cache] Failed to mark the refresh of ${key}:`, error);
+    }
+}
+
+// --- IN-FLIGHT RUNS ---
+// Concurrent requests for the same key share one pipeline run instead of
+// each fetching GitHub and calling the AI. Per process: instances sharing
+// a store still coalesce once the first result is cached.
+const inFlight = new Map<string, Promise<AnalysisResponse>>();
+
+/**
+ * Runs the pipeline for `key`, or joins the run already in progress.
+ * The run owns the key's progress channel: it publishes start and done.
+ */
+function startRun(key: string, trimmedUsername: string, role: RoleProfile | null, repos: string[]): Promise<AnalysisResponse> {
+    const running = inFlight.get(key);
+    if (running) {
+        console.log(`[Analysis] Joining in-flight run for: ${key}`);
+        return running;
+    }
+
+    // Progress is published under the cache key, see ./progress
+    const report: ProgressReporter = (event) => publishProgress(key, event);
+    const run = (async () => {
+        report({ type: "start", username: trimmedUsername });
+        const response = await executeAnalysis(key, trimmedUsername, role, repos, report);
+        report({ type: "done", success: response.success, error: response.error });
+        return response;
+    })().finally(() => inFlight.delete(key));
+
+    inFlight.set(key, run);
+    return run;
+}
+
+/**
+ * Identifies an analysis run the same way runAnalysis does: the cache
+ * key, which is also the progress channel. Null for an invalid username.
+ */
+export function analysisKey(
+    username: string,
+    requestedRole: RoleProfile | null,
+    requestedRepos: string[] = []
+): string | null {
+    const cleanUsername = extractUsername(username);
+    if (!cleanUsername || cleanUsername.length > 39) return null;
+    return cacheKey(cleanUsername, normalizeRole(requestedRole), parseRepoSelection(requestedRepos.join(",")));
+}
+
+/**
+ * The latest result for a report without running anything: the cached
+ * run for this exact query, else (generic queries only, the ones history
+ * records) the user's last recorded scan. Link previews use it, so
+ * unfurls never trigger GitHub or AI calls.
+ */
+export async function getLatestAnalysis(
+    username: string,
+    requestedRole: RoleProfile | null,
+    requestedRepos: string[] = []
+): Promise<AnalysisResponse | null> {
+    const key = analysisKey(username, requestedRole, requestedRepos);
+    if (!key) return null;
+
+    const cached = await getCachedResult(key);
+    if (cached?.response.success) return cached.response;
+
+    // A role or repo query must not show the generic score under its URL
+    const generic = !normalizeRole(requestedRole) && parseRepoSelection(requestedRepos.join(",")).length === 0;
+    return generic ? getLatestRecorded(extractUsername(username)!) : null;
+}
+
+/** "14:05 UTC (in 23 min)" */
+function describeRetryTime(retryAt: number): string {
+    const minutes = Math.max(1, Math.ceil((retryAt - Date.now()) / 60_000));
+    return `${new Date(retryAt).toISOString().slice(11, 16)} UTC (in ${minutes} min)`;
+}
+
+/**
+ * User-facing reason shown on heuristic-only (partial) results.
+ */
+function describeAIFailure(error: AIUnavailableError | AIInvalidOutputError): string {
+    if (error instanceof AIInvalidOutputError) {
+        return "The AI returned an incomplete analysis, so its commentary was discarded.";
+    }
+    if (error instanceof AIQuotaExceededError) {
+        return error.retryAt
+            ? `The AI service is rate limited until ${describeRetryTime(error.retryAt)}.`
+            : "The AI service is rate limited right now.";
+    }
+    return "The AI service could not be reached.";
+}
+
+/**
+ * User-facing message for a typed failure. Raw messages of other errors
+ * never reach the user: they can contain configuration details.
+ */
+function describeFailure(error: AnalysisError): string {
+    if (error instanceof UserNotFoundError) {
+        return `GitHub user "${error.username}" not found. Please check the username and try again.`;
+    }
+    if (error instanceof GitHubRateLimitError) {
+        return `GitHub API rate limit reached. It resets at ${describeRetryTime(error.resetAt)}; please try again then.`;
+    }
+    if (error instanceof GitHubAuthError) {
+        return error.credential === "app"
+            ? "GitHub App credentials were rejected. Please check the GITHUB_APP_* settings in .env.local."
+            : `GitHub token is invalid (${error.credential}). Please check your GITHUB_TOKEN in .env.local.`;
+    }
+    if (error instanceof AINotConfiguredError) {
+        return `AI service is not configured. Please add ${error.variable} to .env.local.`;
+    }
+    if (error instanceof AIUnavailableError || error instanceof AIInvalidOutputError) {
+        return describeAIFailure(error);
+    }
+    return error.message;
+}
+
+/** The AnalysisResponse for a run that threw. */
+function failureResponse(error: unknown): AnalysisResponse {
+    if (!(error instanceof AnalysisError)) {
+        return {
+            success: false,
+            error: "An unexpected error occurred during analysis. Please try again in a moment.",
+            errorCode: "internal",
+            status: 500,
+        };
+    }
+    return {
+        success: false,
+        error: describeFailure(error),
+        errorCode: error.code,
+        status: error.status,
+        ...(error.retryAt !== undefined && { retryAt: new Date(error.retryAt).toISOString() }),
+    };
+}
+
+/**
+ * Cache → GitHub Data → AI Analysis for one username (no rate limiting).
+ * Stale cache entries are returned at once (flagged `revalidating`) while
+ * a background run refreshes them; concurrent misses share one run.
+ */
+export async function runAnalysis(
+    username: string,
+    requestedRole: RoleProfile | null,
+    requestedRepos: string[] = []
+): Promise<AnalysisResponse> {
+    const role = normalizeRole(requestedRole);
+    const repos = parseRepoSelection(requestedRepos.join(","));
+
+    // --- Input Validation ---
+
+    // Sanitize input to handle full URLs or raw usernames
+    const cleanUsername = extractUsername(username);
+
+    if (!cleanUsername) {
+        return {
+            success: false,
+            error: "Please enter a valid GitHub username or profile URL.",
+            errorCode: "invalid_username",
+            status: 400,
+        };
+    }
+
+    const trimmedUsername = cleanUsername;
+
+    // Basic GitHub username validation (alphanumeric + hyphens, 1-39 chars)
+    // Double check just in case extractUsername missed something specific or if logic differs
+    // extractUsername already executes regex validation, so this is just a safeguard
+    if (trimmedUsername.length > 39) {
+        return {
+            success: false,
+            error: "Username is too long.",
+            errorCode: "invalid_username",
+            status: 400,
+        };
+    }
+
+    const key = cacheKey(trimmedUsername, role, repos);
+
+    // --- Step 0: Check Cache ---
+    const cached = await getCachedResult(key);
+    if (cached?.refreshDue) {
+        // Serve the old result now; the next visitor gets the refreshed one
+        void startRun(key, trimmedUsername, role, repos)
+            .then((response) => (isCacheable(response) ? undefined : markRefreshFailed(key)))
+            .catch(() => {});
+        return { ...cached.response, revalidating: true };
+    }
+    if (cached) {
+        // Fresh, or stale after a failed refresh. A refresh may own the
+        // progress channel; don't restart it
+        if (!inFlight.has(key)) {
+            publishProgress(key, { type: "start", username: trimmedUsername });
+            publishProgress(key, { type: "cache_hit" });
+            publishProgress(key, { type: "done", success: true });
+        }
+        return cached.response;
+    }
+
+    return startRun(key, trimmedUsername, role, repos);
+}
+
+async function executeAnalysis(
+    key: string,
+    trimmedUsername: string,
+    role: RoleProfile | null,
+    repos: string[],
+    report: ProgressReporter
+): Promise<AnalysisResponse> {
+    try {
+        // --- Step 1: Fetch GitHub Data ---
+        console.log(`[Analysis] Fetching GitHub data for: ${trimmedUsername}`);
+        const profileData = await fetchGitHubData(
+            trimmedUsername,
+            repos.length > 0 ? { pinned: repos, onlyPinned: true, keep: repos.length } : {},
+            report
+        );
+
+        if (repos.length > 0 && profileData.repos.length === 0) {
+            return {
+                success: false,
+                error: `None of the selected repositories were found for "${trimmedUsername}".`,
+                errorCode: "repos_not_found",
+                status: 404,
+            };
+        }
+
+        // --- Step 2: Run AI Analysis ---
+        // If the AI fails, fall back to a clearly-labeled heuristic-only result
+        // built from the real GitHub data (never mock data).
+        console.log(`[Analysis] Running AI analysis for: ${trimmedUsername}`);
+        let analysisResult: AnalysisResult;
+        let aiFailure: AIUnavailableError | AIInvalidOutputError | null = null;
+        try {
+            analysisResult = await analyzeProfile(profileData, role, report);
+        } catch (error) {
+            if (!(error instanceof AIUnavailableError || error instanceof AIInvalidOutputError)) {
+                throw error;
+            }
+            console.warn(`[Analysis] AI failed for ${trimmedUsername}, returning heuristic-only result`);
+            aiFailure = error;
+            const reason = describeAIFailure(error);
+            report({ type: "ai_fallback", reason });
+            analysisResult = buildHeuristicAnalysis(profileData, role, reason);
+        }
+
+        // --- Step 3: Return Combined Result ---
+        console.log(`[Analysis] Complete for: ${trimmedUsername}`);
+        const response: AnalysisResponse = {
+            success: true,
+            data: analysisResult,
+            profileData,
+            // Partial results say why the AI part is missing, and when it may be back
+            ...(aiFailure && { errorCode: aiFailure.code }),
+            ...(aiFailure?.retryAt !== undefined && { retryAt: new Date(aiFailure.retryAt).toISOString() }),
+        };
+
+        // Cache successful result — but NOT mock or partial data, so a retry re-runs the AI
+        if (isCacheable(response)) {
+            await setCachedResult(key, response);
+            // History tracks the generic rubric on the automatic selection only,
+            // so role runs and custom selections don't add incomparable trend points
+            if (!role && repos.length === 0) await recordAnalysis(trimmedUsername, response);
+        } else {
+            console.log(`[Cache] SKIPPED ${analysisResult.isPartial ? "partial" : "mock"} data for: ${trimmedUsername}`);
+        }
+
+        return response;
+    } catch (error) {
+        console.error(`[Analysis] Error for ${trimmedUsername}:`, error);
+        return failureResponse(error);
+    }
+}
@@ -0,0 +1,175 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { env } from "./env";
+import { checkRateLimit, type RateLimitResult } from "./rate-limit";
+import type { AnalysisResponse } from "./types";
+
+// ============================================
+// Public REST API Helpers (server-only)
+// ============================================
+// API-key authentication, per-key rate limits and JSON responses for the
+// /api/v1 route handlers. Keys come from API_KEYS as "name:key[:limit]"
+// entries; each key gets its own sliding window in ./rate-limit.
+
+// --- CONFIG ---
+const DEFAULT_KEY_LIMIT = 30;          // Requests per minute per key
+export const MAX_API_BATCH_USERS = 10; // Usernames per POST /api/v1/analysis
+
+export interface ApiClient {
+    name: string;  // Shown in logs, never the key itself
+    limit: number; // Requests per minute
+}
+
+interface ApiKey extends ApiClient {
+    digest: Buffer; // SHA-256 of the key, compared in constant time
+}
+
+function digest(value: string): Buffer {
+    return createHash("sha256").update(value).digest();
+}
+
+function parseApiKeys(value: string): ApiKey[] {
+    const parsedDefault = Number.parseInt(env.API_RATE_LIMIT, 10);
+    const defaultLimit = Number.isFinite(parsedDefault) && parsedDefault > 0 ? parsedDefault : DEFAULT_KEY_LIMIT;
+
+    const keys: ApiKey[] = [];
+    for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+        const [name, key, limit] = entry.split(":").map((part) => part.trim());
+        if (!name || !key) {
+            console.error(`⚠️  Ignoring malformed API_KEYS entry (expected "name:key[:limit]").`);
+            continue;
+        }
+        const parsedLimit = Number.parseInt(limit ?? "", 10);
+        keys.push({
+            name,
+            limit: Number.isFinite(parsedLimit) && parsedLimit > 0 ? parsedLimit : defaultLimit,
+            digest: digest(key),
+        });
+    }
+    return keys;
+}
+
+const API_KEYS = parseApiKeys(env.API_KEYS);
+
+/** Reads the key from "Authorization: Bearer <key>" or "X-API-Key". */
+function requestKey(request: Request): string | null {
+    const authorization = request.headers.get("authorization");
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    return bearer?.trim() || request.headers.get("x-api-key")?.trim() || null;
+}
+
+function findClient(key: string): ApiClient | null {
+    const candidate = digest(key);
+    // Check every key so the response time doesn't reveal which one matched
+    let match: ApiKey | null = null;
+    for (const apiKey of API_KEYS) {
+        if (timingSafeEqual(apiKey.digest, candidate)) match = apiKey;
+    }
+    return match && { name: match.name, limit: match.limit };
+}
+
+function rateLimitHeaders(rateLimit: RateLimitResult): Record<string, string> {
+    const headers: Record<string, string> = {
+        "X-RateLimit-Limit": String(rateLimit.limit),
+        "X-RateLimit-Remaining": String(rateLimit.remaining),
+    };
+    if (rateLimit.retryAfterMs !== null) {
+        headers["Retry-After"] = String(Math.ceil(rateLimit.retryAfterMs / 1000));
+    }
+    return headers;
+}
+
+/** JSON response; API results are per-request and never cached by proxies. */
+export function apiResponse(
+    body: unknown,
+    status: number,
+    rateLimit?: RateLimitResult,
+    headers: Record<string, string> = {}
+): Response {
+    return Response.json(body, {
+        status,
+        headers: {
+            "Cache-Control": "no-store",
+            ...(rateLimit ? rateLimitHeaders(rateLimit) : {}),
+            ...headers,
+        },
+    });
+}
+
+/** Error body in the AnalysisResponse shape, so clients parse one schema. */
+export function apiError(
+    status: number,
+    error: string,
+    rateLimit?: RateLimitResult,
+    headers: Record<string, string> = {}
+): Response {
+    const body: AnalysisResponse = { success: false, error, status };
+    return apiResponse(body, status, rateLimit, headers);
+}
+
+/** HTTP status for a pipeline response. */
+export function analysisStatus(response: AnalysisResponse): number {
+    return response.success ? 200 : response.status ?? 500;
+}
+
+export type ApiAuthResult =
+    | { client: ApiClient; rateLimit: RateLimitResult; error?: never }
+    | { error: Response };
+
+export type ApiAuthenticationResult =
+    | { client: ApiClient; error?: never }
+    | { error: Response };
+
+/**
+ * Checks the request's API key without charging its rate limit. On
+ * failure, `error` is the response to return as-is.
+ */
+export function authenticateApiRequest(request: Request): ApiAuthenticationResult {
+    if (API_KEYS.length === 0) {
+        return { error: apiError(503, "The REST API is disabled on this server (no API_KEYS configured).") };
+    }
+
+    const key = requestKey(request);
+    const client = key ? findClient(key) : null;
+    if (!client) {
+        return {
+            error: apiError(
+                401,
+                key ? "Invalid API key." : "Missing API key. Send it as \"Authorization: Bearer <key>\".",
+                undefined,
+                { "WWW-Authenticate": "Bearer" }
+            ),
+        };
+    }
+    return { client };
+}
+
+/**
+ * Charges `cost` requests to an authenticated client's rate limit. On
+ * failure, `error` is the 429 response to return as-is.
+ */
+export async function chargeApiRequest(client: ApiClient, cost = 1): Promise<ApiAuthResult> {
+    const rateLimit = await checkRateLimit(`api:${client.name}`, { maxRequests: client.limit, cost });
+    if (!rateLimit.allowed) {
+        const retrySeconds = Math.ceil((rateLimit.retryAfterMs || 0) / 1000);
+        console.warn(`[RateLimit] BLOCKED: api:${client.name} (retry in ${retrySeconds}s)`);
+        return {
+            error: apiError(
+                429,
+                `Rate limit of ${client.limit} requests per minute exceeded. Retry in ${retrySeconds} seconds.`,
+                rateLimit
+            ),
+        };
+    }
+    console.log(`[RateLimit] OK: api:${client.name} (${rateLimit.remaining} remaining)`);
+    return { client, rateLimit };
+}
+
+/**
+ * Authenticates the request's API key and charges `cost` requests to its
+ * rate limit. On failure, `error` is the response to return as-is.
+ */
+export async function authorizeApiRequest(request: Request, cost = 1): Promise<ApiAuthResult> {
+    const auth = authenticateApiRequest(request);
+    if (auth.error) return auth;
+    return chargeApiRequest(auth.client, cost);
+}
@@ -0,0 +1,87 @@
+import type { DimensionKey } from "./types";
+
+// ============================================
+// Score Badges (shields-style SVG)
+// ============================================
+// Flat two-part badges for profile READMEs. There are no font metrics on
+// the server, so text widths are estimated and pinned with textLength:
+// viewers fit the glyphs to the computed box instead of overflowing it.
+
+// --- CONFIG ---
+export const STALE_AFTER_DAYS = 30; // Older results get the grey "stale" style
+const FONT_SIZE = 11;
+const PADDING = 5; // Each side of each half
+
+export const BADGE_COLORS = {
+    green: "#4c1",
+    yellow: "#dfb317",
+    red: "#e05d44",
+    grey: "#9f9f9f",
+} as const;
+
+export interface Badge {
+    label: string; // Left (grey) half
+    message: string; // Right (colored) half
+    color: string;
+    title?: string; // Tooltip
+}
+
+/** "portfolio score" or the dimension name ("code structure"). */
+export function badgeLabel(dimension: DimensionKey | null): string {
+    return dimension ? dimension.replace(/_/g, " ") : "portfolio score";
+}
+
+/** Same bands as the report page: red < 50 ≤ yellow < 80 ≤ green (dimensions: 4 and 7 of 10). */
+export function badgeColor(score: number, outOf: 10 | 100): string {
+    const [yellowFrom, greenFrom] = outOf === 100 ? [50, 80] : [4, 7];
+    if (score < yellowFrom) return BADGE_COLORS.red;
+    if (score < greenFrom) return BADGE_COLORS.yellow;
+    return BADGE_COLORS.green;
+}
+
+/** Approximate advance width of Verdana 11px. */
+function textWidth(text: string): number {
+    let width = 0;
+    for (const char of text) {
+        if ("il.,:;!|'()[]".includes(char)) width += 3.5;
+        else if ("mwMW@%".includes(char)) width += 10.5;
+        else if (char === " ") width += 3.9;
+        else if (/[A-Z]/.test(char)) width += 7.6;
+        else width += 6.9;
+    }
+    return Math.ceil(width);
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export function renderBadge({ label, message, color, title }: Badge): string {
+    const labelText = textWidth(label);
+    const messageText = textWidth(message);
+    const labelWidth = labelText + PADDING * 2;
+    const messageWidth = messageText + PADDING * 2;
+    const width = labelWidth + messageWidth;
+    const aria = escapeXml(`${label}: ${message}`);
+
+    const text = (value: string, center: number, length: number) =>
+        `<text x="${center}" y="15" fill="#010101" fill-opacity=".3" textLength="${length}">${escapeXml(value)}</text>` +
+        `<text x="${center}" y="14" textLength="${length}">${escapeXml(value)}</text>`;
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${aria}">`,
+        `<title>${escapeXml(title ?? `${label}: ${message}`)}</title>`,
+        `<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>`,
+        `<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>`,
+        `<g clip-path="url(#r)">`,
+        `<rect width="${labelWidth}" height="20" fill="#555"/>`,
+        `<rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${escapeXml(color)}"/>`,
+        `<rect width="${width}" height="20" fill="url(#s)"/>`,
+        `</g>`,
+        `<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="${FONT_SIZE}">`,
+        text(label, labelWidth / 2, labelText),
+        text(message, labelWidth + messageWidth / 2, messageText),
+        `</g>`,
+        `</svg>`,
+    ].join("");
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from "crypto";
+import { runAnalysis } from "./analysis";
+import { getGitHubRateLimit } from "./github";
+import type { BatchJob, BatchSource } from "./types";
+
+// ============================================
+// Batch Queue (server-only, in-memory)
+// ============================================
+// One process-wide FIFO queue shared by every batch job, so two managers
+// running batches at once don't double the load on GitHub or the AI.
+// - GitHub: before each user, the remaining REST quota is checked; below
+//   the reserve, the queue sleeps until the quota resets.
+// - AI: users are analyzed one at a time with a fixed gap; a heuristic-only
+//   (AI unavailable) result pauses the queue and the user is retried once.
+// Jobs live in memory: they are lost on restart, like the analysis cache.
+
+// --- CONFIG ---
+const ANALYSIS_INTERVAL_MS = 2000;      // Gap between analyses (AI requests per minute)
+const AI_BACKOFF_MS = 60 * 1000;        // Pause after the AI failed for a user
+const MAX_ATTEMPTS = 2;                 // Per user, including the AI retry
+const GITHUB_QUOTA_RESERVE = 200;       // REST calls left for interactive users
+const JOB_TTL_MS = 24 * 60 * 60 * 1000; // Finished jobs are kept for a day
+
+interface QueueItem {
+    jobId: string;
+    username: string;
+}
+
+const jobs = new Map<string, BatchJob>();
+const queue: QueueItem[] = [];
+let draining = false;
+let aiBackoffUntil = 0;
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function pruneJobs(): void {
+    const now = Date.now();
+    for (const [id, job] of jobs) {
+        if (job.finishedAt && now - Date.parse(job.finishedAt) > JOB_TTL_MS) {
+            jobs.delete(id);
+        }
+    }
+}
+
+function setNotice(notice: string | null): void {
+    for (const job of jobs.values()) {
+        if (!job.finishedAt) job.notice = notice;
+    }
+}
+
+/** Sleeps until the GitHub quota is above the reserve. */
+async function waitForGitHubQuota(): Promise<void> {
+    try {
+        const { remaining, resetAt } = await getGitHubRateLimit();
+        if (remaining >= GITHUB_QUOTA_RESERVE) return;
+        setNotice(`Waiting for the GitHub rate limit to reset at ${new Date(resetAt).toISOString().slice(11, 16)} UTC.`);
+        console.warn(`[Batch] GitHub quota low (${remaining} left), sleeping until reset`);
+        await sleep(Math.max(0, resetAt - Date.now()) + 1000);
+    } catch (error) {
+        // Can't read the quota: carry on, the pipeline reports rate-limit errors per user
+        console.warn("[Batch] Failed to read GitHub rate limit:", error);
+    }
+}
+
+async function waitForAIBackoff(): Promise<void> {
+    const wait = aiBackoffUntil - Date.now();
+    if (wait <= 0) return;
+    setNotice(`The AI service is unavailable, resuming at ${new Date(aiBackoffUntil).toISOString().slice(11, 19)} UTC.`);
+    await sleep(wait);
+}
+
+async function processItem({ jobId, username }: QueueItem): Promise<void> {
+    const job = jobs.get(jobId);
+    const entry = job?.entries.find((e) => e.username === username);
+    if (!job || !entry) return;
+
+    entry.status = "running";
+    entry.attempts++;
+
+    const response = await runAnalysis(username, null);
+    const { data, profileData } = response;
+
+    if (!response.success || !data || !profileData) {
+        entry.status = "failed";
+        entry.error = response.error;
+    } else if (data.isPartial && entry.attempts < MAX_ATTEMPTS) {
+        // AI failed: retry this user at the back of the queue after a pause
+        entry.status = "queued";
+        aiBackoffUntil = Date.now() + AI_BACKOFF_MS;
+        queue.push({ jobId, username });
+        console.warn(`[Batch] AI unavailable for ${username}, requeued (attempt ${entry.attempts})`);
+        return;
+    } else {
+        entry.status = "done";
+        entry.name = profileData.user.name;
+        entry.avatar_url = profileData.user.avatar_url;
+        entry.total_score = data.total_score;
+        entry.recruiter_verdict = data.recruiter_verdict;
+        entry.isPartial = data.isPartial;
+        entry.dimensions = Object.fromEntries(
+            Object.entries(data.dimensions).map(([key, dim]) => [key, dim.score])
+        ) as BatchJob["entries"][number]["dimensions"];
+    }
+
+    if (job.entries.every((e) => e.status === "done" || e.status === "failed")) {
+        job.finishedAt = new Date().toISOString();
+        job.notice = null;
+        console.log(`[Batch] Job ${job.id} finished (${job.entries.length} users)`);
+    }
+}
+
+async function drain(): Promise<void> {
+    if (draining) return;
+    draining = true;
+    try {
+        while (queue.length > 0) {
+            await waitForAIBackoff();
+            await waitForGitHubQuota();
+            setNotice(null);
+
+            const item = queue.shift()!;
+            try {
+                await processItem(item);
+            } catch (error) {
+                console.error(`[Batch] Unexpected error for ${item.username}:`, error);
+            }
+
+            if (queue.length > 0) await sleep(ANALYSIS_INTERVAL_MS);
+        }
+    } finally {
+        draining = false;
+    }
+}
+
+/**
+ * Creates a job for the given usernames and starts the queue in the
+ * background. Returns immediately; poll getBatchJob for progress.
+ */
+export function createBatchJob(source: BatchSource, usernames: string[]): BatchJob {
+    pruneJobs();
+
+    const job: BatchJob = {
+        id: randomUUID(),
+        source,
+        createdAt: new Date().toISOString(),
+        finishedAt: usernames.length === 0 ? new Date().toISOString() : null,
+        notice: null,
+        entries: usernames.map((username) => ({ username, status: "queued", attempts: 0 })),
+    };
+    jobs.set(job.id, job);
+    queue.push(...usernames.map((username) => ({ jobId: job.id, username })));
+    console.log(`[Batch] Job ${job.id} queued ${usernames.length} users (queue length ${queue.length})`);
+
+    void drain();
+    return job;
+}
+
+export function getBatchJob(id: string): BatchJob | null {
+    return jobs.get(id) ?? null;
+}
@@ -0,0 +1,140 @@
+import { DIMENSION_KEYS } from "./schema";
+import type { BatchEntry, BatchJob } from "./types";
+import { extractUsername } from "./utils";
+
+// ============================================
+// Batch Analysis Helpers
+// ============================================
+// Pure helpers for batch mode: parsing uploaded username lists,
+// ranking the leaderboard and CSV export. The queue itself lives
+// in ./batch-queue (server-only).
+
+export const MAX_BATCH_USERS = 100;
+
+/** Header names recognized as the username column in an uploaded CSV. */
+const USERNAME_HEADER = /^(github[ _-]?)?(username|user|login|handle|profile|url)$|^github$/i;
+
+/**
+ * Splits one CSV line into cells. Handles quoted cells with commas and
+ * escaped quotes ("").
+ */
+function parseCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === "," || char === ";" || char === "\t") {
+            cells.push(cell.trim());
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+}
+
+/**
+ * Extracts unique, valid usernames from an uploaded CSV or pasted list.
+ * - With a header row ("username", "github", "login", ...): that column.
+ * - Without one: the first column of each row, or every cell of a
+ *   single-line list ("alice, bob, carol").
+ * Accepts raw usernames or profile URLs. Returns at most MAX_BATCH_USERS,
+ * plus how many non-empty values were dropped (invalid, duplicate or over the cap).
+ */
+export function parseUsernameList(text: string): { usernames: string[]; skipped: number } {
+    const rows = text
+        .split(/\r?\n/)
+        .filter((line) => line.trim())
+        .map(parseCsvLine);
+    if (rows.length === 0) return { usernames: [], skipped: 0 };
+
+    const headerIndex = rows[0].findIndex((cell) => USERNAME_HEADER.test(cell));
+    const values =
+        headerIndex >= 0
+            ? rows.slice(1).map((row) => row[headerIndex] ?? "")
+            : rows.length === 1
+                ? rows[0]
+                : rows.map((row) => row[0]);
+
+    const seen = new Set<string>();
+    const usernames: string[] = [];
+    let skipped = 0;
+    for (const value of values.filter(Boolean)) {
+        const username = extractUsername(value);
+        if (!username || seen.has(username.toLowerCase()) || usernames.length >= MAX_BATCH_USERS) {
+            skipped++;
+            continue;
+        }
+        seen.add(username.toLowerCase());
+        usernames.push(username);
+    }
+    return { usernames, skipped };
+}
+
+export function batchProgress(job: BatchJob): { completed: number; total: number; running: boolean } {
+    const completed = job.entries.filter((e) => e.status === "done" || e.status === "failed").length;
+    return { completed, total: job.entries.length, running: job.finishedAt === null };
+}
+
+/**
+ * Leaderboard order: analyzed users by score (highest first, ties by
+ * username), then pending and failed ones in input order.
+ */
+export function rankEntries(entries: BatchEntry[]): BatchEntry[] {
+    const done = entries
+        .filter((e) => e.status === "done")
+        .sort((a, b) => (b.total_score ?? 0) - (a.total_score ?? 0) || a.username.localeCompare(b.username));
+    return [...done, ...entries.filter((e) => e.status !== "done")];
+}
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+    let text = value === null || value === undefined ? "" : String(value);
+    // Names and error messages come from GitHub users: a leading quote keeps
+    // spreadsheets from evaluating them as formulas
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Leaderboard as CSV, ranked. `origin` turns report links into absolute URLs.
+ */
+export function batchToCsv(job: BatchJob, origin: string): string {
+    const header = [
+        "rank",
+        "username",
+        "name",
+        "status",
+        "total_score",
+        "recruiter_verdict",
+        ...DIMENSION_KEYS,
+        "heuristic_only",
+        "error",
+        "report_url",
+    ];
+    const rows = rankEntries(job.entries).map((entry, i) => [
+        entry.status === "done" ? i + 1 : "",
+        entry.username,
+        entry.name,
+        entry.status,
+        entry.total_score,
+        entry.isPartial ? "" : entry.recruiter_verdict,
+        ...DIMENSION_KEYS.map((key) => entry.dimensions?.[key]),
+        entry.isPartial ?? false,
+        entry.error,
+        `${origin}/report/${encodeURIComponent(entry.username)}`,
+    ]);
+    return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,42 @@
+import { extractUsername } from "./utils";
+
+// ============================================
+// Candidate Comparison Helpers
+// ============================================
+
+export const MIN_COMPARE_USERS = 2;
+export const MAX_COMPARE_USERS = 5;
+
+/**
+ * Parses the `?users=a,b,c` query value into unique, valid usernames.
+ * Accepts raw usernames or profile URLs; invalid entries are dropped.
+ */
+export function parseCompareUsers(param: string | string[] | undefined): string[] {
+    const raw = Array.isArray(param) ? param.join(",") : param ?? "";
+    const seen = new Set<string>();
+    const usernames: string[] = [];
+
+    for (const entry of raw.split(",")) {
+        const username = extractUsername(entry);
+        if (username && !seen.has(username.toLowerCase())) {
+            seen.add(username.toLowerCase());
+            usernames.push(username);
+        }
+    }
+
+    return usernames;
+}
+
+/**
+ * Returns the indices holding the highest value in a row.
+ * Ties are all highlighted; missing values (null) never win.
+ */
+export function bestIndices(values: (number | null)[]): Set<number> {
+    const present = values.filter((v): v is number => v !== null);
+    if (present.length < 2) return new Set();
+
+    const max = Math.max(...present);
+    if (present.every((v) => v === max)) return new Set(); // Nothing stands out
+
+    return new Set(values.flatMap((v, i) => (v === max ? [i] : [])));
+}
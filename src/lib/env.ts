@@ -4,10 +4,39 @@
 // Validates required env vars at import time.
 // If any are missing, logs a clear warning.
 
+import type { RepoSource } from "./types";
+
+export type AIProviderName = "openrouter" | "openai-compatible" | "offline";
+export type StoreKind = "memory" | "file" | "redis";
+
+const AI_PROVIDERS: AIProviderName[] = ["openrouter", "openai-compatible", "offline"];
+const REPO_SOURCES: RepoSource[] = ["ranked", "pinned"];
+const STORE_KINDS: StoreKind[] = ["memory", "file", "redis"];
+
 interface EnvConfig {
-    GITHUB_TOKEN: string;
-    OPENROUTER_API_KEY: string;
-    AI_MODEL: string;
+    GITHUB_TOKEN: string; // One token, or a comma-separated pool used in rotation
+    GITHUB_APP_ID: string; // Optional GitHub App; its installation token joins the pool
+    GITHUB_APP_INSTALLATION_ID: string; // Required with GITHUB_APP_ID
+    GITHUB_APP_PRIVATE_KEY: string; // Required with GITHUB_APP_ID (PEM; "\n" escapes allowed)
+    AI_PROVIDER: AIProviderName;
+    OPENROUTER_API_KEY: string; // Required for "openrouter"
+    AI_BASE_URL: string; // Required for "openai-compatible" (e.g. http://localhost:11434/v1)
+    AI_API_KEY: string; // Optional for "openai-compatible" (local servers ignore it)
+    AI_MODEL: string; // Empty = provider default
+    AI_TEMPERATURE: string; // Empty = provider default
+    AI_MAX_TOKENS: string; // Empty = provider default
+    DATA_DIR: string; // Root directory for file-backed stores (history, etc.)
+    REPO_SOURCE: RepoSource; // "ranked" (default) or "pinned" (profile's pinned repos first)
+    REPO_POOL_SIZE: string; // Empty = default (300 most recently updated repos)
+    REPO_KEEP: string; // Empty = default (6 repos analyzed)
+    API_KEYS: string; // REST API keys: "name:key[:limit],..." (empty = API disabled)
+    API_RATE_LIMIT: string; // Empty = default (30 requests per minute per key)
+    SITE_URL: string; // Public origin for absolute links in link previews (e.g. https://example.com)
+    CACHE_STORE: StoreKind; // Backend for the analysis cache and rate limits (default "memory")
+    REDIS_URL: string; // Required for CACHE_STORE=redis (redis://[user:password@]host:port[/db])
+    CACHE_TTL_SECONDS: string; // Empty = default (600s per cached analysis)
+    CACHE_STALE_SECONDS: string; // Empty = default (86400s served stale while refreshing)
+    CACHE_MAX_ENTRIES: string; // Empty = default (500 cached analyses, least recently used evicted)
 }
 
 function getEnvVar(name: string, fallback?: string): string {
@@ -21,14 +50,91 @@ function getEnvVar(name: string, fallback?: string): string {
     return value || fallback || "";
 }
 
+/** Reads a variable that may legitimately be unset (no warning). */
+function getOptionalEnvVar(name: string): string {
+    return process.env[name] || "";
+}
+
+function getAIProvider(): AIProviderName {
+    const value = getEnvVar("AI_PROVIDER", "openrouter") as AIProviderName;
+    if (!AI_PROVIDERS.includes(value)) {
+        console.error(
+            `⚠️  Unknown AI_PROVIDER "${value}". Expected one of: ${AI_PROVIDERS.join(", ")}. Using "openrouter".`
+        );
+        return "openrouter";
+    }
+    return value;
+}
+
+function getRepoSource(): RepoSource {
+    const value = getEnvVar("REPO_SOURCE", "ranked") as RepoSource;
+    if (!REPO_SOURCES.includes(value)) {
+        console.error(
+            `⚠️  Unknown REPO_SOURCE "${value}". Expected one of: ${REPO_SOURCES.join(", ")}. Using "ranked".`
+        );
+        return "ranked";
+    }
+    return value;
+}
+
+function getStoreKind(): StoreKind {
+    const value = getEnvVar("CACHE_STORE", "memory") as StoreKind;
+    if (!STORE_KINDS.includes(value)) {
+        console.error(
+            `⚠️  Unknown CACHE_STORE "${value}". Expected one of: ${STORE_KINDS.join(", ")}. Using "memory".`
+        );
+        return "memory";
+    }
+    return value;
+}
+
+/** Positive integer from a numeric env var, or the fallback when unset/invalid. */
+export function envInt(value: string, fallback: number): number {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const AI_PROVIDER = getAIProvider();
+const GITHUB_APP_ID = getOptionalEnvVar("GITHUB_APP_ID");
+const CACHE_STORE = getStoreKind();
+
 /**
  * Validated environment configuration.
  * Import this instead of accessing process.env directly.
  */
 export const env: EnvConfig = {
-    GITHUB_TOKEN: getEnvVar("GITHUB_TOKEN"),
-    OPENROUTER_API_KEY: getEnvVar("OPENROUTER_API_KEY"),
-    AI_MODEL: getEnvVar("AI_MODEL", "openai/gpt-3.5-turbo"),
+    // A GitHub App can stand in for personal tokens
+    GITHUB_TOKEN: GITHUB_APP_ID ? getOptionalEnvVar("GITHUB_TOKEN") : getEnvVar("GITHUB_TOKEN"),
+    GITHUB_APP_ID,
+    GITHUB_APP_INSTALLATION_ID: GITHUB_APP_ID
+        ? getEnvVar("GITHUB_APP_INSTALLATION_ID")
+        : getOptionalEnvVar("GITHUB_APP_INSTALLATION_ID"),
+    GITHUB_APP_PRIVATE_KEY: GITHUB_APP_ID
+        ? getEnvVar("GITHUB_APP_PRIVATE_KEY")
+        : getOptionalEnvVar("GITHUB_APP_PRIVATE_KEY"),
+    AI_PROVIDER,
+    OPENROUTER_API_KEY: AI_PROVIDER === "openrouter"
+        ? getEnvVar("OPENROUTER_API_KEY")
+        : getOptionalEnvVar("OPENROUTER_API_KEY"),
+    AI_BASE_URL: AI_PROVIDER === "openai-compatible"
+        ? getEnvVar("AI_BASE_URL")
+        : getOptionalEnvVar("AI_BASE_URL"),
+    AI_API_KEY: getOptionalEnvVar("AI_API_KEY"),
+    AI_MODEL: getOptionalEnvVar("AI_MODEL"),
+    AI_TEMPERATURE: getOptionalEnvVar("AI_TEMPERATURE"),
+    AI_MAX_TOKENS: getOptionalEnvVar("AI_MAX_TOKENS"),
+    DATA_DIR: getEnvVar("DATA_DIR", ".data"),
+    REPO_SOURCE: getRepoSource(),
+    REPO_POOL_SIZE: getOptionalEnvVar("REPO_POOL_SIZE"),
+    REPO_KEEP: getOptionalEnvVar("REPO_KEEP"),
+    API_KEYS: getOptionalEnvVar("API_KEYS"),
+    API_RATE_LIMIT: getOptionalEnvVar("API_RATE_LIMIT"),
+    SITE_URL: getOptionalEnvVar("SITE_URL"),
+    CACHE_STORE,
+    REDIS_URL: CACHE_STORE === "redis" ? getEnvVar("REDIS_URL") : getOptionalEnvVar("REDIS_URL"),
+    CACHE_TTL_SECONDS: getOptionalEnvVar("CACHE_TTL_SECONDS"),
+    CACHE_STALE_SECONDS: getOptionalEnvVar("CACHE_STALE_SECONDS"),
+    CACHE_MAX_ENTRIES: getOptionalEnvVar("CACHE_MAX_ENTRIES"),
 };
 
 /**
@@ -37,7 +143,11 @@ export const env: EnvConfig = {
  */
 export function validateEnv(): string[] {
     const missing: string[] = [];
-    if (!env.GITHUB_TOKEN) missing.push("GITHUB_TOKEN");
-    if (!env.OPENROUTER_API_KEY) missing.push("OPENROUTER_API_KEY");
+    if (!env.GITHUB_TOKEN && !env.GITHUB_APP_ID) missing.push("GITHUB_TOKEN");
+    if (env.GITHUB_APP_ID && !env.GITHUB_APP_INSTALLATION_ID) missing.push("GITHUB_APP_INSTALLATION_ID");
+    if (env.GITHUB_APP_ID && !env.GITHUB_APP_PRIVATE_KEY) missing.push("GITHUB_APP_PRIVATE_KEY");
+    if (env.AI_PROVIDER === "openrouter" && !env.OPENROUTER_API_KEY) missing.push("OPENROUTER_API_KEY");
+    if (env.AI_PROVIDER === "openai-compatible" && !env.AI_BASE_URL) missing.push("AI_BASE_URL");
+    if (env.CACHE_STORE === "redis" && !env.REDIS_URL) missing.push("REDIS_URL");
     return missing;
 }
@@ -0,0 +1,150 @@
+import type { AnalysisErrorCode } from "./types";
+
+// ============================================
+// Typed Errors
+// ============================================
+// Thrown by the lib layer so callers can branch on the class
+// instead of matching message strings.
+
+/**
+ * A failure the pipeline reports instead of recovering from. `code` and
+ * `status` go on the AnalysisResponse, and `retryAt` (epoch ms) when
+ * waiting is enough to fix it.
+ */
+export class AnalysisError extends Error {
+    readonly code: AnalysisErrorCode;
+    readonly status: number;
+    readonly retryAt?: number;
+
+    constructor(
+        code: AnalysisErrorCode,
+        status: number,
+        message: string,
+        { cause, retryAt }: { cause?: unknown; retryAt?: number } = {}
+    ) {
+        super(message, { cause });
+        this.name = "AnalysisError";
+        this.code = code;
+        this.status = status;
+        this.retryAt = retryAt;
+    }
+}
+
+/** The GitHub user doesn't exist (a 404 on the profile itself, not on a repo or README). */
+export class UserNotFoundError extends AnalysisError {
+    readonly username: string;
+
+    constructor(username: string, options?: { cause?: unknown }) {
+        super("user_not_found", 404, `GitHub user "${username}" not found`, options);
+        this.name = "UserNotFoundError";
+        this.username = username;
+    }
+}
+
+/** GitHub rejected a configured credential (401 Bad credentials). */
+export class GitHubAuthError extends AnalysisError {
+    readonly credential: string; // Pool label, e.g. "token 2"; never the secret
+
+    constructor(credential: string, options?: { cause?: unknown }) {
+        super("github_auth_invalid", 500, `GitHub rejected the credentials of ${credential}`, options);
+        this.name = "GitHubAuthError";
+        this.credential = credential;
+    }
+}
+
+/**
+ * Every configured GitHub credential is out of quota for `resource`
+ * (e.g. "core", "graphql") until `resetAt`, too far off to wait for.
+ */
+export class GitHubRateLimitError extends AnalysisError {
+    readonly resource: string;
+    readonly resetAt: number; // Epoch ms
+
+    constructor(resource: string, resetAt: number, options?: { cause?: unknown }) {
+        super(
+            "github_rate_limited",
+            503,
+            `GitHub API rate limit exceeded (${resource}) until ${new Date(resetAt).toISOString()}`,
+            { ...options, retryAt: resetAt }
+        );
+        this.name = "GitHubRateLimitError";
+        this.resource = resource;
+        this.resetAt = resetAt;
+    }
+}
+
+/** The selected AI provider is missing a required setting. */
+export class AINotConfiguredError extends AnalysisError {
+    readonly variable: string; // The env var to set
+
+    constructor(variable: string, hint = "") {
+        super("ai_not_configured", 500, `${variable} is not set. Please add it to your .env.local file${hint}.`);
+        this.name = "AINotConfiguredError";
+        this.variable = variable;
+    }
+}
+
+/**
+ * The AI kept returning output that fails schema validation,
+ * even after being shown its own validation errors.
+ */
+export class AIInvalidOutputError extends AnalysisError {
+    readonly validationErrors: string[];
+    readonly rawOutput: string;
+    readonly attempts: number;
+
+    constructor(validationErrors: string[], rawOutput: string, attempts: number) {
+        super(
+            "ai_invalid_output",
+            502,
+            `AI output failed validation after ${attempts} attempt(s): ${validationErrors.join("; ")}`
+        );
+        this.name = "AIInvalidOutputError";
+        this.validationErrors = validationErrors;
+        this.rawOutput = rawOutput;
+        this.attempts = attempts;
+    }
+}
+
+/**
+ * The AI provider could not be reached or kept failing
+ * (network errors, 5xx, rate limits, empty responses).
+ */
+export class AIUnavailableError extends AnalysisError {
+    readonly providerStatus?: number; // HTTP status of the last failure, when known
+    readonly attempts: number;
+
+    constructor(
+        cause: Error,
+        attempts: number,
+        code: "ai_unavailable" | "ai_quota_exceeded" = "ai_unavailable",
+        retryAt?: number
+    ) {
+        super(code, 503, `AI provider failed after ${attempts} attempt(s): ${cause.message}`, { cause, retryAt });
+        this.name = "AIUnavailableError";
+        this.providerStatus = (cause as { status?: number }).status;
+        this.attempts = attempts;
+    }
+}
+
+/**
+ * The AI provider kept answering 429: quota or rate limit exhausted.
+ * `retryAt` (epoch ms) is set when the provider said how long to wait.
+ */
+export class AIQuotaExceededError extends AIUnavailableError {
+    constructor(cause: Error, attempts: number, retryAt?: number) {
+        super(cause, attempts, "ai_quota_exceeded", retryAt);
+        this.name = "AIQuotaExceededError";
+    }
+}
+
+/**
+ * The shared key-value store (see ./store) failed: connection refused or
+ * lost, a timeout, or an error reply from the server.
+ */
+export class StoreError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "StoreError";
+    }
+}
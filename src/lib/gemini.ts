@@ -1,59 +1,62 @@
-import OpenAI from "openai";
-import type { AnalysisResult, GitHubProfileData } from "./types";
+import { createHash } from "crypto";
+import type { AnalysisResult, GitHubProfileData, ProgressReporter, RoleFit, RoleProfile, ScoreCard } from "./types";
 import { sanitizeProfileForAI } from "./sanitize";
+import { scoreProfile, validateScoreBreakdown } from "./scoring";
+import { scoreRoleFit } from "./roles";
+import { buildOfflineCommentary, createAIProvider, type AIRepairContext } from "./ai-provider";
+import { DIMENSION_KEYS, validateAnalysisResult, validateCommentary, type AICommentary, type ValidationResult } from "./schema";
+import { AIInvalidOutputError, AIQuotaExceededError, AIUnavailableError } from "./errors";
+import { createStore } from "./store";
 
 // ============================================
-// AI Analyzer (OpenRouter)
+// AI Analyzer
 // ============================================
+// The model backend is pluggable — see ./ai-provider.
 
-// --- SYSTEM PROMPT (Algorithmic Scoring Engine) ---
+// --- SYSTEM PROMPT (Commentary Only) ---
+// Scores are computed by the rule engine in ./scoring. The model receives
+// them as fixed facts and only explains them.
 export const SYSTEM_PROMPT = `
-You are a ruthless Scoring Algorithm, not a Recruiter. Do not "judge" based on potential. Calculate based on PROOF.
+You are a ruthless Senior Engineer reviewing a GitHub portfolio for a recruiter. Judge based on PROOF, not potential.
 
-**ALGORITHMIC SCORING RULES (Follow Step-by-Step):**
+**THE SCORES ARE ALREADY CALCULATED.**
+You will receive the profile data AND a "scorecard" produced by a deterministic scoring algorithm:
+- profile_type, base score, every applied bonus/penalty, the cap, and the final total_score.
+- A 0-10 score for each dimension.
 
-**STEP 1: DETERMINE BASE SCORE (The Ceiling)**
-- **User is a Student/Junior (based on bio):** START AT 60. (Max Cap: 85).
-- **User is a Founder/Professional:** START AT 80. (Max Cap: 100).
+**YOUR JOB:**
+- Do NOT change, recompute or second-guess any number. Never output scores.
+- Explain the numbers using concrete evidence from the repos (names, READMEs, languages, dates).
+- Each repo's "signals" come from its actual file tree and manifests (tests, CI, Docker, dependencies, frameworks). Prefer them over README claims; "signals": null means the tree was not inspected.
+- Give specific, actionable fixes that would move the score up under these rules.
 
-**STEP 2: APPLY BONUSES (Proof of Engineering)**
-- **+10 pts:** Has a repo with >50 stars OR a deployed "Production" app (not a demo).
-- **+10 pts:** Usage of Advanced Tech: Docker, Kubernetes, AWS, GraphQL, or CI/CD workflows.
-- **+5 pts:** Active in the last 7 days.
+**ROLE MODE (only when a "Role fit" block is provided):**
+- The candidate is being evaluated for that specific role. Matched and missing skills are already computed.
+- Tune the summary and actionable_feedback to the role: cite the matched skills' repos as proof, and say which projects would demonstrate the missing skills.
 
-**STEP 3: APPLY PENALTIES (The "One-Hit Wonder" Filter)**
-- **-15 pts (CRITICAL):** If the user has ONLY ONE complex repo (Tier 3) and the rest are Tier 1 (Calculators, To-Do, HTML), apply this penalty.
-- **-10 pts:** If "Documentation" is weak (no architecture diagrams, just "npm install").
-- **-10 pts:** If >50% of repos haven't been touched in 6 months. (Ignore this if User is Founder).
-
-**STEP 4: FINAL CALCULATION**
-(Base + Bonuses - Penalties).
-- **HARD CAP:** If User is "Student" and has < 2 Tier 3 Repos, the Final Score CANNOT exceed 65.
-
-**STEP 5: PRECISION RULE (CRITICAL)**
-- Your total_score MUST be a PRECISE integer, NOT a round number.
-- FORBIDDEN scores: 50, 60, 70, 80, 90. These are lazy and unacceptable.
-- REQUIRED: Use specific values like 47, 53, 61, 67, 73, 78, 84, etc.
-- For dimension scores (0-10): Use the FULL range. Scores of 5 and 7 for every dimension are lazy. Vary between 3, 4, 6, 7, 8, 9 based on actual evidence.
+**OUTPUT RULES (validated strictly):**
+- All five dimensions are required, each with a "comment" of 5-300 characters.
+- "summary" is 20-1200 characters.
+- "actionable_feedback" has 1-6 items, each 10-300 characters.
+- Return JSON only.
 
 **OUTPUT JSON:**
 {
-  "total_score": number,
-  "summary": "Write as a professional justification. Example: 'Base Score: 60 (Student Profile). No major technical bonuses detected. Code structure is decent, but lacks the complexity required for a Senior rating.'",
+  "summary": "Professional justification referencing the scorecard. Example: 'Base Score: 60 (Student Profile). No major technical bonuses detected. Code structure is decent, but lacks the complexity required for a Senior rating.'",
   "dimensions": {
-    "documentation": { "score": 0-10, "comment": "Brief feedback on READMEs" },
-    "code_structure": { "score": 0-10, "comment": "Feedback on repo organization" },
-    "consistency": { "score": 0-10, "comment": "Based on 'updated_at' dates" },
-    "impact": { "score": 0-10, "comment": "Does the project solve a real problem?" },
-    "technical_depth": { "score": 0-10, "comment": "Complexity of languages/tools used" }
+    "documentation": { "comment": "Brief feedback on READMEs" },
+    "code_structure": { "comment": "Feedback on repo organization" },
+    "consistency": { "comment": "Based on 'activity' (active weeks, streaks); 'pushed_at' dates if activity is null" },
+    "impact": { "comment": "Does the project solve a real problem?" },
+    "technical_depth": { "comment": "Complexity of languages/tools used" }
   },
-  "recruiter_verdict": "Pass" | "Interview" | "Strong Hire",
   "actionable_feedback": ["3", "bullet", "points", "of", "specific", "fixes"]
 }
 `;
 
 // --- CONFIG ---
-const MAX_RETRIES = 2;
+const MAX_RETRIES = 2;          // Attempts allowed to fail at the transport level (network, 5xx, empty)
+const MAX_REPAIR_ATTEMPTS = 1;  // Extra calls that send the model its own validation errors
 const BASE_DELAY_MS = 2000;
 
 // --- MOCK DATA FOR DEMO MODE ---
@@ -92,11 +95,99 @@ function extractJSON(text: string): string {
 }
 
 /**
- * Sends GitHub profile data to AI for analysis via OpenRouter.
+ * Parses raw model text into validated commentary.
+ * JSON syntax errors are reported like schema errors so they can be repaired too.
+ */
+function parseCommentary(rawText: string): ValidationResult<AICommentary> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(extractJSON(rawText));
+    } catch (error) {
+        return { ok: false, errors: [`Response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+    }
+    return validateCommentary(parsed);
+}
+
+// --- COMMENTARY REUSE ---
+// Validated commentary is kept per exact model input. A re-run whose
+// sanitized payload, scorecard and role fit are byte-identical to an
+// analyzed one (common after a cache expiry when nothing on GitHub
+// changed) reuses it instead of calling the model again.
+const COMMENTARY_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const commentaryStore = createStore("ai-commentary", { maxEntries: 1000 });
+
+/** Provider, model and prompt are part of the key: changing any of them means new commentary. */
+function commentaryKey(provider: { name: string; model: string }, userMessage: string): string {
+    return createHash("sha256")
+        .update(`${provider.name}\n${provider.model}\n${SYSTEM_PROMPT}\n${userMessage}`)
+        .digest("hex");
+}
+
+/** When a failed call said how long to wait (Retry-After, in seconds), the epoch ms to retry at. */
+function retryAtFrom(error: Error): number | undefined {
+    const value = (error as { headers?: { get?(name: string): string | null } }).headers?.get?.("retry-after");
+    const seconds = Number(value);
+    return value && Number.isFinite(seconds) && seconds > 0 ? Date.now() + seconds * 1000 : undefined;
+}
+
+/**
+ * Combines rule-engine numbers with commentary into an AnalysisResult.
+ */
+function assembleResult(
+    scorecard: ScoreCard,
+    commentary: AICommentary,
+    roleFit: RoleFit | undefined
+): AnalysisResult {
+    const dimensions = Object.fromEntries(
+        DIMENSION_KEYS.map((key) => [
+            key,
+            { score: scorecard.dimensions[key], comment: commentary.dimensions[key].comment },
+        ])
+    ) as AnalysisResult["dimensions"];
+
+    return {
+        total_score: scorecard.total_score,
+        summary: commentary.summary,
+        dimensions,
+        recruiter_verdict: scorecard.recruiter_verdict,
+        actionable_feedback: commentary.actionable_feedback,
+        score_breakdown: scorecard.breakdown,
+        role_fit: roleFit,
+    };
+}
+
+/**
+ * Builds a heuristic-only result from the rule engine, with no AI call.
+ * Used when the AI fails: the GitHub data and score are real, the
+ * commentary is templated, and the result is flagged as partial.
+ */
+export function buildHeuristicAnalysis(
+    profileData: GitHubProfileData,
+    role: RoleProfile | null,
+    reason: string
+): AnalysisResult {
+    const scorecard = scoreProfile(profileData);
+    const roleFit = role ? scoreRoleFit(profileData, role, scorecard.breakdown.profile_type) : undefined;
+    return {
+        ...assembleResult(scorecard, buildOfflineCommentary({ profileData, scorecard, roleFit }), roleFit),
+        isPartial: true,
+        partialReason: reason,
+    };
+}
+
+/**
+ * Scores a GitHub profile with the rule engine, then asks the configured
+ * AI provider to write commentary around those fixed numbers.
+ * When a role is given, role fit is scored too and feedback targets it.
  * Uses sanitized, minimal payload to reduce token costs.
+ *
+ * Throws AIUnavailableError (AIQuotaExceededError after 429s) /
+ * AIInvalidOutputError when the AI fails; never substitutes made-up data.
  */
 export async function analyzeProfile(
-    profileData: GitHubProfileData
+    profileData: GitHubProfileData,
+    role: RoleProfile | null = null,
+    onProgress: ProgressReporter = () => {}
 ): Promise<AnalysisResult> {
     // --- DEMO MODE BYPASS ---
     if (
@@ -106,17 +197,10 @@ export async function analyzeProfile(
     ) {
         console.log("[AI] DEMO MODE: Returning mock analysis.");
         await sleep(1500);
-        return MOCK_ANALYSIS;
+        return { ...MOCK_ANALYSIS, isMockData: true };
     }
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-        throw new Error(
-            "OPENROUTER_API_KEY is not set. Please add it to your .env.local file."
-        );
-    }
-
-    const model = process.env.AI_MODEL || "openai/gpt-4o-mini";
+    const provider = createAIProvider();
 
     // --- SANITIZE DATA (token optimization) ---
     const rawPayload = JSON.stringify(profileData);
@@ -131,105 +215,128 @@ export async function analyzeProfile(
         `[AI] Payload sanitized: ${(rawSize / 1024).toFixed(1)}kb → ${(cleanSize / 1024).toFixed(1)}kb (${reduction}% reduction)`
     );
 
-    const userMessage = `Analyze this GitHub profile:\n\n${sanitizedPayload}`;
+    // --- DETERMINISTIC SCORE (source of truth for every number) ---
+    const scorecard = scoreProfile(profileData);
+    const { breakdown } = scorecard;
+    console.log(
+        `[Scoring] ${breakdown.profile_type} base ${breakdown.base}, ` +
+        `${[...breakdown.bonuses, ...breakdown.penalties].map((a) => `${a.rule}(${a.points > 0 ? "+" : ""}${a.points})`).join(" ") || "no adjustments"}` +
+        `${breakdown.caps.map((c) => `, ${c.rule}(${c.limit})`).join("")} → ${scorecard.total_score}`
+    );
+    onProgress({ type: "scored", total_score: scorecard.total_score });
+
+    const breakdownErrors = validateScoreBreakdown(breakdown, scorecard.total_score);
+    if (breakdownErrors.length > 0) {
+        throw new Error(`Score breakdown failed validation: ${breakdownErrors.join("; ")}`);
+    }
+
+    const roleFit = role ? scoreRoleFit(profileData, role, breakdown.profile_type) : undefined;
+    if (roleFit) {
+        console.log(`[Scoring] Role fit for "${roleFit.role_title}": ${roleFit.score} (missing: ${roleFit.missing_skills.join(", ") || "none"})`);
+    }
 
-    // Initialize OpenAI client with OpenRouter base URL
-    const client = new OpenAI({
-        baseURL: "https://openrouter.ai/api/v1",
-        apiKey: apiKey,
-        defaultHeaders: {
-            "HTTP-Referer": "http://localhost:3000",
-            "X-Title": "GitHub Portfolio Analyzer",
-        },
-    });
+    const userMessage =
+        `Analyze this GitHub profile:\n\n${sanitizedPayload}\n\n` +
+        `Scorecard (fixed, do not change):\n\n${JSON.stringify(scorecard)}` +
+        (roleFit ? `\n\nRole fit (fixed, do not change):\n\n${JSON.stringify(roleFit)}` : "");
+
+    // --- REUSE (payload unchanged since it was last analyzed) ---
+    const reuseKey = commentaryKey(provider, userMessage);
+    let previous: AICommentary | null = null;
+    try {
+        previous = await commentaryStore.get<AICommentary>(reuseKey);
+    } catch (error) {
+        console.warn("[AI] Commentary lookup failed, calling the model:", error);
+    }
+    if (previous) {
+        // Stored entries were validated when written; check again in case the schema moved on
+        const commentary = validateCommentary(previous);
+        const result = commentary.ok && validateAnalysisResult(assembleResult(scorecard, commentary.value, roleFit));
+        if (result && result.ok) {
+            console.log(`[AI] Payload unchanged since last analysis, reusing ${provider.name} commentary`);
+            onProgress({ type: "ai_reused", provider: provider.name });
+            return result.value;
+        }
+    }
 
     let lastError: Error | null = null;
+    let transportFailures = 0;
+    let repairAttempts = 0;
+    let repair: AIRepairContext | undefined;
+
+    let attempt = 0;
 
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    while (true) {
+        attempt++;
+        let rawText: string;
         try {
-            if (attempt > 0) {
-                const delay = BASE_DELAY_MS * Math.pow(2, attempt - 1);
-                console.log(`[AI] Retry attempt ${attempt + 1} after ${delay}ms...`);
-                await sleep(delay);
-            }
-
-            console.log(`[AI] Calling OpenRouter (${model}), attempt ${attempt + 1}...`);
-
-            const completion = await client.chat.completions.create({
-                model: model,
-                messages: [
-                    { role: "system", content: SYSTEM_PROMPT },
-                    { role: "user", content: userMessage },
-                ],
-                temperature: 0.4,  // Balanced: deterministic enough but allows granular scores
-                max_tokens: 800,
-                seed: 42,          // Fixed seed = same input → same output
+            console.log(
+                `[AI] Calling ${provider.name} (${provider.model}), attempt ${attempt}${repair ? " (repair)" : ""}...`
+            );
+            onProgress({
+                type: "ai_attempt",
+                attempt,
+                max_attempts: MAX_RETRIES + MAX_REPAIR_ATTEMPTS,
+                provider: provider.name,
+                repair: !!repair,
             });
 
-            const rawText = completion.choices[0]?.message?.content;
-            if (!rawText) {
-                throw new Error("Empty response from AI");
-            }
-
-            const cleanJSON = extractJSON(rawText);
-            const parsed: AnalysisResult = JSON.parse(cleanJSON);
-
-            // Validation
-            if (
-                typeof parsed.total_score !== "number" ||
-                typeof parsed.summary !== "string" ||
-                !parsed.dimensions ||
-                !parsed.recruiter_verdict
-            ) {
-                throw new Error("Invalid response structure from AI");
-            }
-
-            parsed.total_score = Math.max(0, Math.min(100, Math.round(parsed.total_score)));
-            if (!Array.isArray(parsed.actionable_feedback)) parsed.actionable_feedback = [];
-
-            // Ensure all dimension scores are clamped 0-10
-            const dims = parsed.dimensions;
-            let calculatedTotal = 0;
-
-            for (const key of ["documentation", "code_structure", "consistency", "impact", "technical_depth"] as const) {
-                if (dims[key]) {
-                    // Handle potential string numbers from AI
-                    const rawDimScore = Number(dims[key].score);
-                    dims[key].score = Math.max(0, Math.min(10, Math.round(Boolean(rawDimScore) ? rawDimScore : 0)));
-                    calculatedTotal += dims[key].score;
-                }
-            }
-
-            // ROBUST FIX: If total_score is 0 or missing, recalculate it from dimensions.
-            // Max score = 5 dimensions * 10 points * 2 multiplier = 100.
-            // If AI explicitly returned 0 but dimensions are non-zero, it likely hallucinated the total.
-            const rawTotalScore = Number(parsed.total_score);
-            if (!rawTotalScore || rawTotalScore === 0) {
-                // Double the sum of dimensions to get percent (50 * 2 = 100)
-                parsed.total_score = calculatedTotal * 2;
-                console.log(`[AI] Recalculated total_score from dimensions: ${parsed.total_score}`);
-            } else {
-                parsed.total_score = Math.max(0, Math.min(100, Math.round(rawTotalScore)));
-            }
-
-            // Ensure verdict is valid
-            if (!["Strong Hire", "Interview", "Pass"].includes(parsed.recruiter_verdict)) {
-                parsed.recruiter_verdict = parsed.total_score >= 70 ? "Strong Hire" : parsed.total_score >= 45 ? "Interview" : "Pass";
-            }
-
-            console.log(`[AI] Success! Score: ${parsed.total_score}, Verdict: ${parsed.recruiter_verdict}`);
-            return parsed;
+            rawText = await provider.complete({
+                systemPrompt: SYSTEM_PROMPT,
+                userMessage,
+                repair,
+                profileData,
+                scorecard,
+                roleFit,
+            });
         } catch (error) {
             lastError = error instanceof Error ? error : new Error(String(error));
-            console.warn(`[AI] Attempt ${attempt + 1} failed: ${lastError.message}`);
+            console.warn(`[AI] Attempt ${attempt} failed: ${lastError.message}`);
+            if (++transportFailures >= MAX_RETRIES) break;
+
+            const delay = BASE_DELAY_MS * Math.pow(2, transportFailures - 1);
+            console.log(`[AI] Retry attempt ${attempt + 1} after ${delay}ms...`);
+            // Only the status reaches the client; raw provider messages can contain config details
+            const status = (error as { status?: number }).status;
+            onProgress({ type: "ai_retry", attempt, reason: status ? `HTTP ${status}` : "request failed", delay_ms: delay });
+            await sleep(delay);
+            continue;
+        }
+
+        // --- SCHEMA VALIDATION (with targeted repair instead of blind retry) ---
+        const commentary = parseCommentary(rawText);
+        onProgress({ type: "validation", attempt, ok: commentary.ok, errors: commentary.ok ? [] : commentary.errors });
+        if (!commentary.ok) {
+            lastError = new AIInvalidOutputError(commentary.errors, rawText, attempt);
+            console.warn(`[AI] Attempt ${attempt} returned invalid output: ${commentary.errors.join("; ")}`);
+            if (repairAttempts++ >= MAX_REPAIR_ATTEMPTS) break;
+            repair = { previousOutput: rawText, errors: commentary.errors };
+            continue;
+        }
+
+        const result = validateAnalysisResult(assembleResult(scorecard, commentary.value, roleFit));
+
+        if (!result.ok) {
+            // Numbers come from the rule engine, so this is a bug rather than a model mistake
+            throw new AIInvalidOutputError(result.errors, rawText, attempt);
         }
+
+        console.log(`[AI] Success! Score: ${result.value.total_score}, Verdict: ${result.value.recruiter_verdict}`);
+        await commentaryStore.set(reuseKey, commentary.value, COMMENTARY_TTL_MS).catch((error) => {
+            console.warn("[AI] Failed to store commentary for reuse:", error);
+        });
+        return result.value;
     }
 
-    // --- FINAL FALLBACK: AUTOMATIC DEMO MODE ---
-    console.warn("[AI] All attempts failed. Falling back to MOCK DATA.");
-    return {
-        ...MOCK_ANALYSIS,
-        isMockData: true,
-        summary: `(System Note: Live analysis failed. Showing demo data.) ${MOCK_ANALYSIS.summary}`
-    };
+    // Model answered but never produced valid output: surface it, don't mask it
+    if (lastError instanceof AIInvalidOutputError) {
+        throw lastError;
+    }
+
+    console.warn("[AI] All attempts failed.");
+    const cause = lastError ?? new Error("Unknown AI failure");
+    if ((cause as { status?: number }).status === 429) {
+        throw new AIQuotaExceededError(cause, attempt, retryAtFrom(cause));
+    }
+    throw new AIUnavailableError(cause, attempt);
 }
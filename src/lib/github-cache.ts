@@ -0,0 +1,74 @@
+import type { Octokit } from "@octokit/rest";
+import { createStore } from "./store";
+
+// ============================================
+// Conditional GitHub Requests (ETag cache)
+// ============================================
+// Keeps the ETag / Last-Modified and body of selected GET endpoints and
+// revalidates them with If-None-Match / If-Modified-Since. When nothing
+// changed GitHub answers 304, which doesn't count against the token's
+// rate limit, and the stored body is returned instead. Entries live in
+// the shared store (./store), so every instance benefits.
+
+// --- CONFIG ---
+const CONDITIONAL_ROUTES = new Set([
+    "GET /users/{username}",
+    "GET /users/{username}/repos",
+    "GET /repos/{owner}/{repo}/readme",
+]);
+const ENTRY_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Unused validators are dropped after a week
+const MAX_ENTRIES = 5000;
+
+interface ConditionalEntry {
+    etag: string | null;
+    lastModified: string | null;
+    data: unknown;
+}
+
+const store = createStore("github", { maxEntries: MAX_ENTRIES });
+
+/**
+ * Makes `octokit` send conditional requests for CONDITIONAL_ROUTES.
+ * Callers see a normal 200 response either way.
+ */
+export function enableConditionalRequests(octokit: Octokit): void {
+    octokit.hook.wrap("request", async (request, options) => {
+        if (!CONDITIONAL_ROUTES.has(`${options.method} ${options.url}`)) return request(options);
+
+        // One entry per expanded URL and media type (raw and JSON READMEs differ)
+        const { url, headers } = octokit.request.endpoint(options);
+        const key = `${headers.accept ?? ""} ${url}`;
+
+        let cached: ConditionalEntry | null = null;
+        try {
+            cached = await store.get<ConditionalEntry>(key);
+        } catch (error) {
+            console.warn(`[GitHub] ETag cache lookup failed for ${url}:`, error);
+        }
+
+        // Set in place: hooks registered earlier (e.g. request logging) are
+        // bound to this options object and ignore a copy passed to request()
+        if (cached?.etag) options.headers["if-none-match"] = cached.etag;
+        else if (cached?.lastModified) options.headers["if-modified-since"] = cached.lastModified;
+
+        try {
+            const response = await request(options);
+            const etag = response.headers.etag ?? null;
+            const lastModified = response.headers["last-modified"] ?? null;
+            if (etag || lastModified) {
+                const entry: ConditionalEntry = { etag, lastModified, data: response.data };
+                await store.set(key, entry, ENTRY_TTL_MS).catch((error) => {
+                    console.warn(`[GitHub] Failed to store ETag for ${url}:`, error);
+                });
+            }
+            return response;
+        } catch (error) {
+            const err = error as { status?: number; response?: { headers: Record<string, string> } };
+            if (err.status === 304 && cached) {
+                console.log(`[GitHub] 304 Not Modified: ${url} (reused cached body)`);
+                return { status: 200, url, headers: err.response?.headers ?? {}, data: cached.data };
+            }
+            throw error;
+        }
+    });
+}
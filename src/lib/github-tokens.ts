@@ -0,0 +1,248 @@
+import { sign } from "crypto";
+import type { Octokit } from "@octokit/rest";
+import { env } from "./env";
+import { GitHubAuthError, GitHubRateLimitError } from "./errors";
+
+// ============================================
+// GitHub Token Pool (server-only)
+// ============================================
+// Spreads GitHub API calls over every configured credential: the tokens in
+// GITHUB_TOKEN (comma-separated) plus, with GITHUB_APP_ID, a GitHub App
+// installation token. Each response's x-ratelimit-* headers update that
+// credential's quota, and each request goes to the credential with the
+// most calls left. A credential down to the reserve is skipped until its
+// reset; when all of them are, the request waits for the next reset if it
+// is close and otherwise fails with GitHubRateLimitError (exact reset time).
+// Quotas are tracked per process; the headers keep them honest when other
+// instances share a token.
+
+// --- CONFIG ---
+const RESERVE = 5;                          // Calls left untouched per credential and resource
+const MAX_WAIT_MS = 30 * 1000;              // Longer waits fail instead of holding the request
+const SECONDARY_LIMIT_PAUSE_MS = 60 * 1000; // When a secondary limit doesn't say how long
+const GITHUB_API_URL = "https://api.github.com";
+const APP_JWT_TTL_S = 9 * 60;               // GitHub accepts at most 10 minutes
+const APP_TOKEN_RENEW_MS = 5 * 60 * 1000;   // Renew installation tokens this long before expiry
+
+interface Quota {
+    remaining: number;
+    resetAt: number; // Epoch ms
+}
+
+interface Credential {
+    label: string; // For logs ("token 2", "app"); never the secret itself
+    getToken(): Promise<string | null>; // Null = unauthenticated
+    quotas: Map<string, Quota>; // Per rate-limit resource ("core", "graphql", "search")
+}
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const formatTime = (ms: number) => new Date(ms).toISOString().slice(11, 19);
+
+// --- GITHUB APP ---
+
+/** A JWT signed with the app's private key (RS256), used only to mint installation tokens. */
+function createAppJwt(appId: string, privateKey: string): string {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString("base64url");
+    // Backdated a minute to allow for clock drift
+    const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({ iat: now - 60, exp: now + APP_JWT_TTL_S, iss: appId })}`;
+    return `${unsigned}.${sign("RSA-SHA256", Buffer.from(unsigned), privateKey).toString("base64url")}`;
+}
+
+/** Installation tokens last an hour; one is cached and renewed shortly before it expires. */
+function createAppTokenSource(appId: string, installationId: string, privateKey: string): () => Promise<string> {
+    let cached: { token: string; expiresAt: number } | null = null;
+    let pending: Promise<string> | null = null;
+
+    const mint = async (): Promise<string> => {
+        // Plain fetch: going through Octokit would route this request back into the pool
+        const response = await fetch(`${GITHUB_API_URL}/app/installations/${installationId}/access_tokens`, {
+            method: "POST",
+            headers: {
+                accept: "application/vnd.github+json",
+                authorization: `Bearer ${createAppJwt(appId, privateKey)}`,
+                "user-agent": "github-portfolio-analyzer",
+            },
+        });
+        if (response.status === 401) throw new GitHubAuthError("app");
+        if (!response.ok) {
+            throw new Error(`GitHub App installation token request failed (HTTP ${response.status})`);
+        }
+        const { token, expires_at } = (await response.json()) as { token: string; expires_at: string };
+        cached = { token, expiresAt: Date.parse(expires_at) };
+        console.log(`[GitHub] Minted installation token for app ${appId} (expires ${expires_at})`);
+        return token;
+    };
+
+    return async () => {
+        if (cached && cached.expiresAt - Date.now() > APP_TOKEN_RENEW_MS) return cached.token;
+        pending ??= mint().finally(() => {
+            pending = null;
+        });
+        return pending;
+    };
+}
+
+// --- POOL ---
+
+function createCredentials(): Credential[] {
+    const credentials: Credential[] = env.GITHUB_TOKEN
+        .split(",")
+        .map((token) => token.trim())
+        .filter(Boolean)
+        .map((token, i) => ({ label: `token ${i + 1}`, getToken: async () => token, quotas: new Map() }));
+
+    if (env.GITHUB_APP_ID) {
+        // Keys pasted into a one-line env var usually have escaped newlines
+        const privateKey = env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, "\n");
+        credentials.push({
+            label: "app",
+            getToken: createAppTokenSource(env.GITHUB_APP_ID, env.GITHUB_APP_INSTALLATION_ID, privateKey),
+            quotas: new Map(),
+        });
+    }
+
+    // Nothing configured: unauthenticated, with GitHub's much lower limit
+    if (credentials.length === 0) {
+        credentials.push({ label: "anonymous", getToken: async () => null, quotas: new Map() });
+    }
+    return credentials;
+}
+
+/** The rate-limit resource a request is counted against. */
+function resourceFor(url: string): string {
+    if (url === "/graphql") return "graphql";
+    if (url.startsWith("/search/")) return "search";
+    return "core";
+}
+
+/** Calls left before the reserve; unknown or already reset counts as unlimited. */
+function headroom(credential: Credential, resource: string, now: number): number {
+    const quota = credential.quotas.get(resource);
+    if (!quota || quota.resetAt <= now) return Infinity;
+    return quota.remaining - RESERVE;
+}
+
+function recordQuota(credential: Credential, fallbackResource: string, headers: ResponseHeaders): void {
+    const remaining = Number(headers["x-ratelimit-remaining"]);
+    const reset = Number(headers["x-ratelimit-reset"]);
+    if (headers["x-ratelimit-remaining"] === undefined || !Number.isFinite(remaining) || !Number.isFinite(reset)) return;
+
+    const resource = String(headers["x-ratelimit-resource"] ?? fallbackResource);
+    const previous = credential.quotas.get(resource);
+    credential.quotas.set(resource, { remaining, resetAt: reset * 1000 });
+    if (remaining <= RESERVE && (!previous || previous.remaining > RESERVE)) {
+        console.warn(
+            `[GitHub] ${credential.label} down to ${remaining} ${resource} calls, resets at ${formatTime(reset * 1000)} UTC`
+        );
+    }
+}
+
+/**
+ * When a failed request was rate-limited, the time (epoch ms) the
+ * credential can be used again; null for any other error.
+ */
+function rateLimitedUntil(error: { status?: number; message?: string; response?: { headers: ResponseHeaders } }): number | null {
+    if (error.status !== 403 && error.status !== 429) return null;
+    const headers = error.response?.headers ?? {};
+    if (String(headers["x-ratelimit-remaining"]) === "0") {
+        return Number(headers["x-ratelimit-reset"]) * 1000 || Date.now() + SECONDARY_LIMIT_PAUSE_MS;
+    }
+    const retryAfter = Number(headers["retry-after"]);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) return Date.now() + retryAfter * 1000;
+    if (/secondary rate limit/i.test(error.message ?? "")) return Date.now() + SECONDARY_LIMIT_PAUSE_MS;
+    return null;
+}
+
+const credentials = createCredentials();
+
+/**
+ * The credential with the most headroom for `resource`. Waits for the
+ * earliest reset when every credential is at its reserve and that reset
+ * is within MAX_WAIT_MS; throws GitHubRateLimitError otherwise.
+ */
+async function acquireCredential(resource: string): Promise<Credential> {
+    while (true) {
+        const now = Date.now();
+        const best = credentials.reduce((a, b) => (headroom(b, resource, now) > headroom(a, resource, now) ? b : a));
+        if (headroom(best, resource, now) > 0) return best;
+
+        const resetAt = Math.min(...credentials.map((c) => c.quotas.get(resource)?.resetAt ?? now));
+        if (resetAt - now > MAX_WAIT_MS) throw new GitHubRateLimitError(resource, resetAt);
+        console.warn(`[GitHub] All credentials at their ${resource} reserve, waiting until ${formatTime(resetAt)} UTC`);
+        // x-ratelimit-reset has one-second resolution
+        await sleep(Math.max(0, resetAt - now) + 1000);
+    }
+}
+
+/**
+ * Routes `octokit`'s requests through the credential pool. Pass
+ * `request: { credential: label }` to pin a request to one credential.
+ */
+export function enableTokenPool(octokit: Octokit): void {
+    octokit.hook.wrap("request", async (request, options) => {
+        const resource = resourceFor(options.url);
+        const pinned = options.request?.credential as string | undefined;
+        // Every credential can be rate-limited once, plus one wait for a reset
+        let attemptsLeft = credentials.length + 1;
+
+        while (true) {
+            const credential = pinned
+                ? credentials.find((c) => c.label === pinned) ?? credentials[0]
+                : await acquireCredential(resource);
+
+            // Set in place, like the ETag validators (see ./github-cache)
+            const token = await credential.getToken();
+            if (token) options.headers.authorization = `token ${token}`;
+            // Count the call before it's sent, so concurrent requests spread out
+            const quota = credential.quotas.get(resource);
+            if (quota && quota.resetAt > Date.now()) quota.remaining--;
+
+            try {
+                const response = await request(options);
+                recordQuota(credential, resource, response.headers);
+                return response;
+            } catch (error) {
+                const err = error as { status?: number; message?: string; response?: { headers: ResponseHeaders } };
+                if (err.response) recordQuota(credential, resource, err.response.headers);
+                if (err.status === 401) throw new GitHubAuthError(credential.label, { cause: error });
+                const until = rateLimitedUntil(err);
+                if (until === null) throw error;
+
+                credential.quotas.set(resource, { remaining: 0, resetAt: until });
+                console.warn(`[GitHub] ${credential.label} rate-limited (${resource}) until ${formatTime(until)} UTC`);
+                if (pinned || --attemptsLeft <= 0) throw new GitHubRateLimitError(resource, until, { cause: error });
+            }
+        }
+    });
+}
+
+/**
+ * Core REST quota over the whole pool: the calls left on every credential
+ * and the earliest reset. Reading it doesn't count against the quota.
+ */
+export async function getPoolRateLimit(octokit: Octokit): Promise<{ remaining: number; resetAt: number }> {
+    const limits = await Promise.all(credentials.map(async (credential) => {
+        try {
+            const { data } = await octokit.rateLimit.get({ request: { credential: credential.label } });
+            // Authoritative, and undoes the pool counting this free call
+            const core = { remaining: data.resources.core.remaining, resetAt: data.resources.core.reset * 1000 };
+            credential.quotas.set("core", core);
+            return core;
+        } catch (error) {
+            console.warn(`[GitHub] Failed to read the rate limit of ${credential.label}:`, error);
+            return null;
+        }
+    }));
+    const known = limits.filter((limit) => limit !== null);
+    if (known.length === 0) throw new Error("Could not read the rate limit of any GitHub credential");
+    return {
+        remaining: known.reduce((sum, limit) => sum + limit.remaining, 0),
+        resetAt: Math.min(...known.map((limit) => limit.resetAt)),
+    };
+}
@@ -1,17 +1,114 @@
 import { Octokit } from "@octokit/rest";
-import type { GitHubProfileData, GitHubRepo, GitHubUser } from "./types";
+import { activityWindowStart, buildCommitActivity } from "./activity";
+import { AnalysisError, UserNotFoundError } from "./errors";
+import { enableConditionalRequests } from "./github-cache";
+import { enableTokenPool, getPoolRateLimit } from "./github-tokens";
+import { DEPENDENCY_MANIFESTS, deriveRepoInsights, type DependencyManifest } from "./repo-inspection";
+import { rankCandidates, resolveSelectionStrategy, selectRepos, type RepoSelectionStrategy } from "./repo-selection";
+import type { CommitActivity, GitHubProfileData, GitHubRepo, GitHubUser, ProgressReporter, RepoInsights } from "./types";
 
 // ============================================
 // GitHub Data Fetcher
 // ============================================
 
-const octokit = new Octokit({
-    auth: process.env.GITHUB_TOKEN,
-});
+// Credentials are picked per request from the token pool (see ./github-tokens)
+const octokit = new Octokit();
+enableTokenPool(octokit);
+// Profile, repo list and READMEs are revalidated with ETags (see ./github-cache)
+enableConditionalRequests(octokit);
+
+const REPOS_PER_PAGE = 100;
+const MEMBERS_PER_PAGE = 100;
+const PINNED_ITEMS_LIMIT = 6; // GitHub profiles show at most 6 pins
+const COMMITS_PER_PAGE = 100;
+const MAX_COMMIT_PAGES = 3; // Per repo; caps the API cost of very active repos
+
+type RawRepo = Awaited<ReturnType<typeof octokit.repos.listForUser>>["data"][number];
+
+/**
+ * Pages through the user's owned repos, most recently updated first,
+ * until `poolSize` repos are collected or the list runs out.
+ */
+async function fetchRepoPool(username: string, poolSize: number): Promise<RawRepo[]> {
+    const pool: RawRepo[] = [];
+    for (let page = 1; pool.length < poolSize; page++) {
+        const { data } = await octokit.repos.listForUser({
+            username,
+            sort: "updated",
+            direction: "desc",
+            // Fixed page size: GitHub offsets pages by (page - 1) * per_page
+            per_page: REPOS_PER_PAGE,
+            page,
+            type: "owner", // Only repos they own, not forks they haven't modified
+        });
+        pool.push(...data);
+        if (data.length < REPOS_PER_PAGE) break;
+    }
+    return pool.slice(0, poolSize);
+}
+
+interface PinnedItemsResponse {
+    user: {
+        pinnedItems: { nodes: ({ name: string; owner: { login: string } } | null)[] };
+    } | null;
+}
+
+/**
+ * Names of the repos pinned on the user's profile that they own
+ * (GraphQL only). Returns an empty list if the query fails, unless the
+ * token pool is exhausted or misconfigured.
+ */
+async function fetchPinnedRepoNames(username: string): Promise<string[]> {
+    try {
+        const data = await octokit.graphql<PinnedItemsResponse>(
+            `query ($login: String!, $first: Int!) {
+                user(login: $login) {
+                    pinnedItems(first: $first, types: REPOSITORY) {
+                        nodes { ... on Repository { name owner { login } } }
+                    }
+                }
+            }`,
+            { login: username, first: PINNED_ITEMS_LIMIT }
+        );
+        return (data.user?.pinnedItems.nodes ?? [])
+            .filter((node): node is { name: string; owner: { login: string } } => !!node)
+            .filter((node) => node.owner.login.toLowerCase() === username.toLowerCase())
+            .map((node) => node.name);
+    } catch (error) {
+        // Exhausted or invalid credentials fail the analysis (exact reset time)
+        if (error instanceof AnalysisError) throw error;
+        const err = error as { message?: string };
+        console.warn(`[GitHub] Failed to fetch pinned repos for ${username}:`, err.message || String(error));
+        return [];
+    }
+}
+
+/**
+ * Fetches pinned repos that fell outside the pool (e.g. old, rarely
+ * updated projects of prolific users). Unknown names are skipped.
+ */
+async function fetchMissingRepos(username: string, names: string[], pool: RawRepo[]): Promise<RawRepo[]> {
+    const known = new Set(pool.map((repo) => repo.name.toLowerCase()));
+    const missing = names.filter((name) => !known.has(name.toLowerCase()));
+    const fetched = await Promise.all(
+        missing.map(async (name) => {
+            try {
+                const { data } = await octokit.repos.get({ owner: username, repo: name });
+                return data.owner.login.toLowerCase() === username.toLowerCase() ? (data as RawRepo) : null;
+            } catch (error) {
+                if (error instanceof AnalysisError) throw error;
+                console.warn(`[GitHub] Pinned repo ${username}/${name} not found, skipping.`);
+                return null;
+            }
+        })
+    );
+    return fetched.filter((repo): repo is RawRepo => !!repo);
+}
 
 /**
  * Fetches the raw README.md content for a given repository.
- * Returns null if no README exists or an error occurs.
+ * Returns null if no README exists or the request fails; token pool
+ * errors (GitHubRateLimitError, GitHubAuthError) are rethrown.
  */
 async function fetchReadmeContent(
     owner: string,
@@ -26,6 +123,7 @@ async function fetchReadmeContent(
         // When using raw format, data is returned as a string
         return data as unknown as string;
     } catch (error) {
+        if (error instanceof AnalysisError) throw error;
         // Cast error to check status safely
         const err = error as { status?: number; message?: string };
         if (err.status === 404) {
@@ -38,22 +136,157 @@ async function fetchReadmeContent(
     }
 }
 
+/**
+ * Fetches a root file's raw text. Returns null if it cannot be read.
+ */
+async function fetchRawFile(owner: string, repo: string, path: string): Promise<string | null> {
+    try {
+        const { data } = await octokit.repos.getContent({
+            owner,
+            repo,
+            path,
+            mediaType: { format: "raw" },
+        });
+        return data as unknown as string;
+    } catch (error) {
+        if (error instanceof AnalysisError) throw error;
+        const err = error as { message?: string };
+        console.warn(`[GitHub] Failed to fetch ${path} for ${owner}/${repo}:`, err.message || String(error));
+        return null;
+    }
+}
+
+/**
+ * Fetches the repo's recursive file tree and root dependency manifests,
+ * then derives concrete signals (tests, CI, Docker, deps, frameworks).
+ * Returns null for empty repos or when the tree cannot be fetched.
+ */
+async function fetchRepoInsights(
+    owner: string,
+    repo: string,
+    branch: string
+): Promise<RepoInsights | null> {
+    try {
+        const { data: tree } = await octokit.git.getTree({
+            owner,
+            repo,
+            tree_sha: branch,
+            recursive: "true",
+        });
+        const paths = tree.tree
+            .filter((entry) => entry.type === "blob" && entry.path)
+            .map((entry) => entry.path as string);
+
+        // Only fetch manifests that exist at the root
+        const present = DEPENDENCY_MANIFESTS.filter((m) => paths.includes(m));
+        const contents = await Promise.all(present.map((m) => fetchRawFile(owner, repo, m)));
+        const manifests: Partial<Record<DependencyManifest, string>> = {};
+        present.forEach((m, i) => {
+            const content = contents[i];
+            if (content !== null) manifests[m] = content;
+        });
+
+        return deriveRepoInsights(paths, tree.truncated, manifests);
+    } catch (error) {
+        if (error instanceof AnalysisError) throw error;
+        const err = error as { status?: number; message?: string };
+        if (err.status === 404 || err.status === 409) {
+            // 409 = empty repository (no commits yet)
+            return null;
+        }
+        console.warn(`[GitHub] Failed to inspect ${owner}/${repo}:`, err.message || String(error));
+        return null;
+    }
+}
+
+/**
+ * Fetches commit timestamps authored by `username` in one repo since `since`.
+ * `capped` is true when the page limit was hit before the history ran out.
+ */
+async function fetchCommitDates(
+    username: string,
+    repo: string,
+    since: string
+): Promise<{ dates: string[]; capped: boolean }> {
+    const dates: string[] = [];
+    for (let page = 1; page <= MAX_COMMIT_PAGES; page++) {
+        const { data } = await octokit.repos.listCommits({
+            owner: username,
+            repo,
+            author: username,
+            since,
+            per_page: COMMITS_PER_PAGE,
+            page,
+        });
+        for (const commit of data) {
+            const date = commit.commit.author?.date ?? commit.commit.committer?.date;
+            if (date) dates.push(date);
+        }
+        if (data.length < COMMITS_PER_PAGE) return { dates, capped: false };
+    }
+    return { dates, capped: true };
+}
+
+/**
+ * Builds the user's commit activity across the selected repos for the
+ * 52 weeks ending at `now`. Returns null if no repo's history could be read.
+ */
+async function fetchCommitActivity(
+    username: string,
+    repoNames: string[],
+    now: number
+): Promise<CommitActivity | null> {
+    const since = new Date(activityWindowStart(now)).toISOString();
+    let truncated = false;
+    let failures = 0;
+
+    const results = await Promise.all(
+        repoNames.map(async (repo) => {
+            try {
+                const { dates, capped } = await fetchCommitDates(username, repo, since);
+                truncated ||= capped;
+                return [repo, dates] as const;
+            } catch (error) {
+                if (error instanceof AnalysisError) throw error;
+                const err = error as { status?: number; message?: string };
+                // 409 = empty repository (no commits yet)
+                if (err.status !== 409) {
+                    failures++;
+                    console.warn(`[GitHub] Failed to fetch commits for ${username}/${repo}:`, err.message || String(error));
+                }
+                return [repo, []] as const;
+            }
+        })
+    );
+
+    if (repoNames.length > 0 && failures === repoNames.length) return null;
+    return buildCommitActivity(Object.fromEntries(results), now, truncated);
+}
+
 /**
  * Fetches comprehensive GitHub profile data for a given username.
  *
  * Pipeline:
  * 1. Fetch user profile info
- * 2. Fetch top 6 repos (sorted by most recently updated)
- * 3. For each repo, fetch the README.md content
- * 4. Return consolidated GitHubProfileData object
+ * 2. Page through owned repos and select the ones to analyze (see ./repo-selection)
+ * 3. For each repo, fetch the README.md content and inspect its file tree
+ * 4. Fetch the user's commit activity across those repos (last 52 weeks)
+ * 5. Return consolidated GitHubProfileData object
  */
 export async function fetchGitHubData(
-    username: string
+    username: string,
+    overrides: Partial<RepoSelectionStrategy> = {},
+    onProgress: ProgressReporter = () => {}
 ): Promise<GitHubProfileData> {
     // --- Step 1: Fetch User Profile ---
-    const { data: rawUser } = await octokit.users.getByUsername({
-        username,
-    });
+    let rawUser: Awaited<ReturnType<typeof octokit.users.getByUsername>>["data"];
+    try {
+        ({ data: rawUser } = await octokit.users.getByUsername({ username }));
+    } catch (error) {
+        // Only a 404 on the profile itself means the user doesn't exist
+        if ((error as { status?: number }).status === 404) throw new UserNotFoundError(username, { cause: error });
+        throw error;
+    }
 
     const user: GitHubUser = {
         login: rawUser.login,
@@ -72,37 +305,42 @@ export async function fetchGitHubData(
         created_at: rawUser.created_at,
         updated_at: rawUser.updated_at,
     };
+    onProgress({ type: "profile_fetched", name: user.name, public_repos: user.public_repos });
 
-    // --- Step 2: Fetch 30 Repositories (broad pool) ---
-    const { data: rawRepos } = await octokit.repos.listForUser({
-        username,
-        sort: "updated",
-        direction: "desc",
-        per_page: 30,
-        type: "owner", // Only repos they own, not forks they haven't modified
-    });
-
-    // --- Step 3: SMART SORT ALGORITHM ---
-    // Rank repos by "Impact" instead of just recency.
-    // Prioritize: Stars > Original Work > Has Description > Has Topics
-    const sortedRepos = rawRepos
-        .map((repo) => ({
-            ...repo,
-            _relevance:
-                (repo.stargazers_count ?? 0) * 5    // High weight for stars
-                + (!repo.fork ? 10 : 0)             // Bonus for original work
-                + (repo.description ? 5 : 0)        // Bonus for description
-                + ((repo.topics?.length ?? 0) > 0 ? 3 : 0) // Bonus for topics
-        }))
-        .sort((a, b) => b._relevance - a._relevance)
-        .slice(0, 6); // Keep only the Top 6 BEST repos
-
-    console.log(`[GitHub] Smart Sort: Selected ${sortedRepos.map(r => `${r.name}(★${r.stargazers_count})`).join(', ')}`);
-
-    // --- Step 4: Fetch README for each repo (in parallel) ---
+    // --- Step 2: Fetch the repo pool (paginated) + pins ---
+    const strategy = resolveSelectionStrategy(overrides);
+    const pool = await fetchRepoPool(username, strategy.poolSize);
+    const profilePins = strategy.source === "pinned" && !strategy.onlyPinned
+        ? await fetchPinnedRepoNames(username)
+        : [];
+    const pinned = [...new Set([...strategy.pinned, ...profilePins])];
+    pool.push(...(await fetchMissingRepos(username, pinned, pool)));
+
+    // --- Step 3: Select repos (pins first, then ranked by relevance) ---
+    const sortedRepos = selectRepos(pool, strategy, pinned);
+
+    console.log(
+        `[GitHub] Selection (${strategy.onlyPinned ? "manual" : strategy.source}, pool ${pool.length}): ` +
+        `${sortedRepos.map(r => `${r.name}(★${r.stargazers_count})`).join(', ')}`
+    );
+    onProgress({ type: "repos_selected", repos: sortedRepos.map((r) => r.name), pool_size: pool.length });
+
+    // --- Step 4: Fetch README + file tree for each repo (in parallel) ---
+    let fetchedRepos = 0;
     const repos: GitHubRepo[] = await Promise.all(
         sortedRepos.map(async (repo) => {
-            const readmeContent = await fetchReadmeContent(username, repo.name);
+            const [readmeContent, insights] = await Promise.all([
+                fetchReadmeContent(username, repo.name),
+                fetchRepoInsights(username, repo.name, repo.default_branch ?? "HEAD"),
+            ]);
+            onProgress({
+                type: "repo_fetched",
+                repo: repo.name,
+                completed: ++fetchedRepos,
+                total: sortedRepos.length,
+                has_readme: readmeContent !== null,
+                inspected: insights !== null,
+            });
 
             return {
                 name: repo.name,
@@ -126,14 +364,60 @@ export async function fetchGitHubData(
                     ? { name: repo.license.name ?? "", spdx_id: repo.license.spdx_id ?? "" }
                     : null,
                 readme_content: readmeContent,
+                insights,
             } satisfies GitHubRepo;
         })
     );
 
-    // --- Step 4: Return consolidated data ---
+    // --- Step 5: Commit activity (authored by the user, across selected repos) ---
+    const now = Date.now();
+    const activity = await fetchCommitActivity(username, repos.map((r) => r.name), now);
+    onProgress({ type: "activity_fetched", total_commits: activity?.total_commits ?? null });
+    if (activity) {
+        console.log(
+            `[GitHub] Activity: ${activity.total_commits} commits, ` +
+            `${activity.consistency.active_weeks}/52 active weeks${activity.truncated ? " (truncated)" : ""}`
+        );
+    }
+
+    // --- Step 6: Return consolidated data ---
     return {
         user,
         repos,
-        fetchedAt: new Date().toISOString(),
+        selection: {
+            source: strategy.onlyPinned ? "manual" : strategy.source,
+            pool_size: pool.length,
+            pinned: sortedRepos.map((r) => r.name).filter((name) => pinned.some((p) => p.toLowerCase() === name.toLowerCase())),
+            requested: strategy.onlyPinned ? strategy.pinned : [],
+            candidates: rankCandidates(pool, strategy.weights, sortedRepos.map((r) => r.name)),
+        },
+        activity,
+        fetchedAt: new Date(now).toISOString(),
     };
 }
+
+/**
+ * Lists an organization's member logins (public members, plus private
+ * ones when the token can see them), up to `limit`.
+ */
+export async function fetchOrgMembers(org: string, limit: number): Promise<string[]> {
+    const members: string[] = [];
+    for (let page = 1; members.length < limit; page++) {
+        const { data } = await octokit.orgs.listMembers({
+            org,
+            per_page: MEMBERS_PER_PAGE,
+            page,
+        });
+        members.push(...data.map((member) => member.login));
+        if (data.length < MEMBERS_PER_PAGE) break;
+    }
+    return members.slice(0, limit);
+}
+
+/**
+ * Remaining core REST quota across all configured credentials, and the
+ * earliest reset. Checking it does not count against the quota.
+ */
+export async function getGitHubRateLimit(): Promise<{ remaining: number; resetAt: number }> {
+    return getPoolRateLimit(octokit);
+}
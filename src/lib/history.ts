@@ -0,0 +1,136 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { env } from "./env";
+import type { AnalysisResponse, AnalysisResult, TrendPoint } from "./types";
+
+// ============================================
+// Analysis History (file-backed)
+// ============================================
+// Every completed analysis adds one slim trend point to a per-user JSON
+// Lines file under DATA_DIR/history, capped at MAX_HISTORY_POINTS. Only
+// the latest full response is kept, in a separate file next to it, so
+// reading the trend or the last scan never parses old READMEs.
+
+// --- CONFIG ---
+const HISTORY_DIR = path.resolve(env.DATA_DIR, "history");
+const MAX_HISTORY_POINTS = 100; // Oldest points are dropped beyond this
+
+function historyFile(username: string): string {
+    // Usernames are validated upstream (alphanumeric + hyphens), so they are safe file names
+    return path.join(HISTORY_DIR, `${username.toLowerCase()}.jsonl`);
+}
+
+function latestFile(username: string): string {
+    return path.join(HISTORY_DIR, `${username.toLowerCase()}.latest.json`);
+}
+
+/** Write-then-rename so readers never see a half-written file. */
+async function writeAtomic(file: string, content: string): Promise<void> {
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, content, "utf-8");
+    await fs.rename(tmp, file);
+}
+
+function toTrendPoint(analyzedAt: string, data: AnalysisResult): TrendPoint {
+    return {
+        analyzedAt,
+        total_score: data.total_score,
+        dimensions: {
+            documentation: data.dimensions.documentation.score,
+            code_structure: data.dimensions.code_structure.score,
+            consistency: data.dimensions.consistency.score,
+            impact: data.dimensions.impact.score,
+            technical_depth: data.dimensions.technical_depth.score,
+        },
+        recruiter_verdict: data.recruiter_verdict,
+    };
+}
+
+/**
+ * Parses the user's history file. `compact` is true when the file should
+ * be rewritten: corrupt lines, or full responses written before history
+ * was slimmed down (converted to points here).
+ */
+async function readHistory(username: string): Promise<{ points: TrendPoint[]; compact: boolean }> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(historyFile(username), "utf-8");
+    } catch (error) {
+        const err = error as { code?: string };
+        if (err.code !== "ENOENT") {
+            console.warn(`[History] Failed to read history for ${username}:`, error);
+        }
+        return { points: [], compact: false };
+    }
+
+    const points: TrendPoint[] = [];
+    let compact = false;
+    for (const line of raw.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            const entry = JSON.parse(line) as TrendPoint | { analyzedAt: string; response: AnalysisResponse };
+            if ("response" in entry) {
+                compact = true;
+                if (entry.response.data) points.push(toTrendPoint(entry.analyzedAt, entry.response.data));
+            } else {
+                points.push(entry);
+            }
+        } catch {
+            compact = true;
+            console.warn(`[History] Skipping corrupt entry for ${username}`);
+        }
+    }
+
+    points.sort((a, b) => a.analyzedAt.localeCompare(b.analyzedAt));
+    return { points, compact };
+}
+
+/**
+ * Records a completed analysis: appends its trend point and replaces the
+ * stored latest response. Failures are logged, never thrown — history
+ * must not break the pipeline.
+ */
+export async function recordAnalysis(
+    username: string,
+    response: AnalysisResponse
+): Promise<void> {
+    if (!response.success || !response.data || !response.profileData) return;
+
+    const point = toTrendPoint(response.profileData.fetchedAt, response.data);
+
+    try {
+        await fs.mkdir(HISTORY_DIR, { recursive: true });
+        const { points, compact } = await readHistory(username);
+        if (compact || points.length >= MAX_HISTORY_POINTS) {
+            const kept = [...points, point].slice(-MAX_HISTORY_POINTS);
+            await writeAtomic(historyFile(username), kept.map((p) => JSON.stringify(p) + "\n").join(""));
+        } else {
+            await fs.appendFile(historyFile(username), JSON.stringify(point) + "\n", "utf-8");
+        }
+        await writeAtomic(latestFile(username), JSON.stringify(response));
+        console.log(`[History] RECORDED scan for: ${username.toLowerCase()}`);
+    } catch (error) {
+        console.warn(`[History] Failed to record scan for ${username}:`, error);
+    }
+}
+
+/**
+ * Returns the user's stored trend points, oldest first.
+ * Corrupt lines (e.g. a partial write) are skipped.
+ */
+export async function getHistory(username: string): Promise<TrendPoint[]> {
+    return (await readHistory(username)).points;
+}
+
+/** The full response of the user's last recorded scan, or null. */
+export async function getLatestRecorded(username: string): Promise<AnalysisResponse | null> {
+    try {
+        return JSON.parse(await fs.readFile(latestFile(username), "utf-8")) as AnalysisResponse;
+    } catch (error) {
+        const err = error as { code?: string };
+        if (err.code !== "ENOENT") {
+            console.warn(`[History] Failed to read the last scan of ${username}:`, error);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,304 @@
+import { deflateSync } from "zlib";
+
+// ============================================
+// Minimal PDF Writer (no dependencies)
+// ============================================
+// Lays out a flat list of blocks (headings, paragraphs, bullets, bars) on
+// A4 pages with the built-in Helvetica fonts, so exports need no browser
+// and no font files. Text is encoded as Windows-1252 (WinAnsiEncoding);
+// characters outside it are replaced with "?".
+
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export type PdfBlock =
+    | { type: "heading"; text: string; size?: number; color?: PdfColor }
+    | { type: "text"; text: string; size?: number; bold?: boolean; color?: PdfColor; indent?: number }
+    | { type: "bullet"; text: string; size?: number; color?: PdfColor }
+    | { type: "pair"; label: string; value: string; size?: number; color?: PdfColor } // Value right-aligned, bold
+    | { type: "bar"; ratio: number; color: PdfColor; height?: number } // ratio 0-1
+    | { type: "rule" }
+    | { type: "space"; height: number };
+
+export interface PdfOptions {
+    title: string;
+    footer: string; // Left side of every page's footer
+    createdAt: Date;
+}
+
+// --- CONFIG ---
+const PAGE_WIDTH = 595.28;  // A4, points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_HEIGHT = 24;
+const LINE_SPACING = 1.35;
+const BODY_SIZE = 10;
+const TEXT_COLOR: PdfColor = [0.1, 0.1, 0.12];
+const MUTED_COLOR: PdfColor = [0.45, 0.45, 0.5];
+const TRACK_COLOR: PdfColor = [0.9, 0.9, 0.92];
+
+// Glyph widths (1/1000 em) for ASCII 32-126, from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Windows-1252 code points that differ from Latin-1, with their widths
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+    "€": { code: 0x80, width: 556 },
+    "…": { code: 0x85, width: 1000 },
+    "‘": { code: 0x91, width: 222 },
+    "’": { code: 0x92, width: 222 },
+    "“": { code: 0x93, width: 333 },
+    "”": { code: 0x94, width: 333 },
+    "•": { code: 0x95, width: 350 },
+    "–": { code: 0x96, width: 556 },
+    "—": { code: 0x97, width: 1000 },
+    "™": { code: 0x99, width: 1000 },
+};
+const WIN_ANSI_WIDTHS = new Map(Object.values(WIN_ANSI_EXTRAS).map(({ code, width }) => [code, width]));
+
+/** Text as Windows-1252 bytes. */
+function encode(text: string): number[] {
+    const bytes: number[] = [];
+    for (const char of text.replace(/[\r\n\t]+/g, " ")) {
+        const code = char.codePointAt(0)!;
+        if (code >= 32 && code <= 126) bytes.push(code);
+        else if (WIN_ANSI_EXTRAS[char]) bytes.push(WIN_ANSI_EXTRAS[char].code);
+        else if (code >= 160 && code <= 255) bytes.push(code);
+        else bytes.push(63); // "?"
+    }
+    return bytes;
+}
+
+function glyphWidth(byte: number, bold: boolean): number {
+    if (byte >= 32 && byte <= 126) return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[byte - 32];
+    return WIN_ANSI_WIDTHS.get(byte) ?? 556; // Latin-1 letters are close to their base glyphs
+}
+
+function textWidth(bytes: number[], size: number, bold: boolean): number {
+    return bytes.reduce((sum, byte) => sum + glyphWidth(byte, bold), 0) * size / 1000;
+}
+
+/** Greedy word wrap; words wider than the line are split. */
+function wrap(text: string, size: number, bold: boolean, maxWidth: number): number[][] {
+    const space = encode(" ");
+    const lines: number[][] = [];
+    let line: number[] = [];
+
+    for (const word of text.split(/\s+/).filter(Boolean).map(encode)) {
+        const candidate = line.length > 0 ? [...line, ...space, ...word] : word;
+        if (textWidth(candidate, size, bold) <= maxWidth) {
+            line = candidate;
+            continue;
+        }
+        if (line.length > 0) lines.push(line);
+        line = [];
+        for (const byte of word) {
+            if (line.length > 0 && textWidth([...line, byte], size, bold) > maxWidth) {
+                lines.push(line);
+                line = [];
+            }
+            line.push(byte);
+        }
+    }
+    if (line.length > 0 || lines.length === 0) lines.push(line);
+    return lines;
+}
+
+function num(value: number): string {
+    return Number(value.toFixed(2)).toString();
+}
+
+function pdfString(bytes: number[]): string {
+    let out = "(";
+    for (const byte of bytes) {
+        if (byte === 40 || byte === 41 || byte === 92) out += "\\" + String.fromCharCode(byte);
+        else if (byte > 126) out += "\\" + byte.toString(8).padStart(3, "0");
+        else out += String.fromCharCode(byte);
+    }
+    return out + ")";
+}
+
+function color([r, g, b]: PdfColor, op: "rg" | "RG"): string {
+    return `${num(r)} ${num(g)} ${num(b)} ${op}`;
+}
+
+function textOp(bytes: number[], x: number, y: number, size: number, bold: boolean, fill: PdfColor): string {
+    return `BT /${bold ? "F2" : "F1"} ${num(size)} Tf ${color(fill, "rg")} ${num(x)} ${num(y)} Td ${pdfString(bytes)} Tj ET`;
+}
+
+function rectOp(x: number, y: number, width: number, height: number, fill: PdfColor): string {
+    return `${color(fill, "rg")} ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`;
+}
+
+/** Lays blocks out top to bottom, starting a new page when one is full. */
+function layout(blocks: PdfBlock[]): string[][] {
+    const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+    const top = PAGE_HEIGHT - MARGIN;
+    const bottom = MARGIN + FOOTER_HEIGHT;
+    const pages: string[][] = [[]];
+    let y = top;
+
+    const ops = () => pages[pages.length - 1];
+    const ensure = (height: number) => {
+        if (y - height < bottom && y < top) {
+            pages.push([]);
+            y = top;
+        }
+    };
+    const writeLines = (lines: number[][], x: number, size: number, bold: boolean, fill: PdfColor) => {
+        const lineHeight = size * LINE_SPACING;
+        for (const line of lines) {
+            ensure(lineHeight);
+            y -= lineHeight;
+            ops().push(textOp(line, x, y + size * 0.3, size, bold, fill));
+        }
+    };
+
+    for (const block of blocks) {
+        switch (block.type) {
+            case "heading": {
+                const size = block.size ?? 14;
+                if (y < top) y -= size * 0.6;
+                ensure(size * LINE_SPACING * 3); // Keep a heading with the start of its section
+                writeLines(wrap(block.text, size, true, contentWidth), MARGIN, size, true, block.color ?? TEXT_COLOR);
+                y -= 4;
+                break;
+            }
+            case "text": {
+                const size = block.size ?? BODY_SIZE;
+                const indent = block.indent ?? 0;
+                const bold = !!block.bold;
+                writeLines(wrap(block.text, size, bold, contentWidth - indent), MARGIN + indent, size, bold, block.color ?? TEXT_COLOR);
+                y -= 4;
+                break;
+            }
+            case "bullet": {
+                const size = block.size ?? BODY_SIZE;
+                const lines = wrap(block.text, size, false, contentWidth - 14);
+                ensure(size * LINE_SPACING);
+                ops().push(textOp(encode("•"), MARGIN + 2, y - size * LINE_SPACING + size * 0.3, size, false, MUTED_COLOR));
+                writeLines(lines, MARGIN + 14, size, false, block.color ?? TEXT_COLOR);
+                y -= 3;
+                break;
+            }
+            case "pair": {
+                const size = block.size ?? BODY_SIZE;
+                const value = encode(block.value);
+                const valueWidth = textWidth(value, size, true);
+                const label = wrap(block.label, size, false, contentWidth - valueWidth - 12)[0];
+                ensure(size * LINE_SPACING);
+                y -= size * LINE_SPACING;
+                ops().push(textOp(label, MARGIN, y + size * 0.3, size, false, block.color ?? TEXT_COLOR));
+                ops().push(textOp(value, MARGIN + contentWidth - valueWidth, y + size * 0.3, size, true, block.color ?? TEXT_COLOR));
+                break;
+            }
+            case "bar": {
+                const height = block.height ?? 6;
+                ensure(height + 6);
+                y -= height + 2;
+                const ratio = Math.min(1, Math.max(0, block.ratio));
+                ops().push(rectOp(MARGIN, y, contentWidth, height, TRACK_COLOR));
+                if (ratio > 0) ops().push(rectOp(MARGIN, y, contentWidth * ratio, height, block.color));
+                y -= 6;
+                break;
+            }
+            case "rule":
+                ensure(12);
+                y -= 6;
+                ops().push(`${color(TRACK_COLOR, "RG")} 0.75 w ${num(MARGIN)} ${num(y)} m ${num(MARGIN + contentWidth)} ${num(y)} l S`);
+                y -= 8;
+                break;
+            case "space":
+                y -= block.height;
+                break;
+        }
+    }
+    return pages;
+}
+
+/** PDF date string, e.g. D:20240131120000Z. */
+function pdfDate(date: Date): string {
+    return `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+}
+
+/**
+ * Renders blocks into a complete PDF file (A4, Helvetica, page numbers
+ * in the footer). Content streams are Flate-compressed.
+ */
+export function renderPdf(blocks: PdfBlock[], options: PdfOptions): Uint8Array<ArrayBuffer> {
+    const pages = layout(blocks);
+    const footer = encode(options.footer);
+
+    // Objects 1-5 are fixed; each page adds a page object and its content stream
+    const objects: Buffer[] = [];
+    const pageRefs = pages.map((_, i) => `${6 + i * 2} 0 R`);
+    objects.push(Buffer.from("<< /Type /Catalog /Pages 2 0 R >>", "latin1"));
+    objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pages.length} >>`, "latin1"));
+    objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>", "latin1"));
+    objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>", "latin1"));
+    objects.push(Buffer.from(
+        `<< /Title ${pdfString(encode(options.title))} /Producer (GitHub Portfolio Analyzer) /CreationDate (${pdfDate(options.createdAt)}) >>`,
+        "latin1"
+    ));
+
+    pages.forEach((ops, i) => {
+        const pageLabel = encode(`Page ${i + 1} of ${pages.length}`);
+        const footerY = MARGIN;
+        const content = [
+            ...ops,
+            textOp(footer, MARGIN, footerY, 8, false, MUTED_COLOR),
+            textOp(pageLabel, PAGE_WIDTH - MARGIN - textWidth(pageLabel, 8, false), footerY, 8, false, MUTED_COLOR),
+        ].join("\n");
+        const stream = deflateSync(Buffer.from(content, "latin1"));
+
+        objects.push(Buffer.from(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + i * 2} 0 R >>`,
+            "latin1"
+        ));
+        objects.push(Buffer.concat([
+            Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+            stream,
+            Buffer.from("\nendstream", "latin1"),
+        ]));
+    });
+
+    // --- Assemble file with cross-reference table ---
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    const offsets: number[] = [];
+    let length = chunks[0].length;
+    objects.forEach((body, i) => {
+        offsets.push(length);
+        const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, "latin1"), body, Buffer.from("\nendobj\n", "latin1")]);
+        chunks.push(chunk);
+        length += chunk.length;
+    });
+
+    const xref = [
+        "xref",
+        `0 ${objects.length + 1}`,
+        "0000000000 65535 f ",
+        ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+        "trailer",
+        `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+        "startxref",
+        String(length),
+        "%%EOF",
+    ].join("\n");
+    chunks.push(Buffer.from(xref + "\n", "latin1"));
+
+    return Uint8Array.from(Buffer.concat(chunks));
+}
@@ -0,0 +1,79 @@
+import type { AnalysisProgressEvent } from "./types";
+
+// ============================================
+// Analysis Progress Bus (in-memory)
+// ============================================
+// runAnalysis publishes pipeline events under its cache key; the report's
+// progress stream subscribes to the same key. Events of the current run are
+// buffered so a subscriber that connects late still sees what happened.
+
+// --- CONFIG ---
+const RETAIN_AFTER_DONE_MS = 60 * 1000; // Buffer kept briefly for late subscribers
+
+export interface TimedProgressEvent {
+    at: number; // Epoch ms
+    event: AnalysisProgressEvent;
+}
+
+type Listener = (event: TimedProgressEvent) => void;
+
+interface Channel {
+    buffer: TimedProgressEvent[];
+    listeners: Set<Listener>;
+    cleanup: ReturnType<typeof setTimeout> | null;
+}
+
+const channels = new Map<string, Channel>();
+
+function channel(key: string): Channel {
+    let ch = channels.get(key);
+    if (!ch) {
+        ch = { buffer: [], listeners: new Set(), cleanup: null };
+        channels.set(key, ch);
+    }
+    return ch;
+}
+
+function dropIfIdle(key: string, ch: Channel): void {
+    if (ch.listeners.size === 0 && ch.buffer.length === 0) channels.delete(key);
+}
+
+/**
+ * Publishes an event for `key`. A "start" event begins a new run and
+ * discards the previous run's buffer.
+ */
+export function publishProgress(key: string, event: AnalysisProgressEvent): void {
+    const ch = channel(key);
+    if (ch.cleanup) {
+        clearTimeout(ch.cleanup);
+        ch.cleanup = null;
+    }
+    if (event.type === "start") ch.buffer = [];
+
+    const timed = { at: Date.now(), event };
+    ch.buffer.push(timed);
+    for (const listener of ch.listeners) listener(timed);
+
+    if (event.type === "done") {
+        ch.cleanup = setTimeout(() => {
+            ch.buffer = [];
+            ch.cleanup = null;
+            dropIfIdle(key, ch);
+        }, RETAIN_AFTER_DONE_MS);
+    }
+}
+
+/**
+ * Replays the current run's buffered events, then forwards new ones.
+ * Works before a run starts, too. Returns the unsubscribe function.
+ */
+export function subscribeProgress(key: string, listener: Listener): () => void {
+    const ch = channel(key);
+    ch.listeners.add(listener);
+    for (const timed of [...ch.buffer]) listener(timed);
+
+    return () => {
+        ch.listeners.delete(listener);
+        dropIfIdle(key, ch);
+    };
+}
@@ -1,72 +1,94 @@
+import { createStore } from "./store";
+
 // ============================================
-// In-Memory Sliding Window Rate Limiter
+// Sliding Window Rate Limiter
 // ============================================
-// No external dependencies. Tracks request timestamps per IP
-// and enforces a maximum number of requests per time window.
-
-interface RateLimitEntry {
-    timestamps: number[];
-}
-
-const store = new Map<string, RateLimitEntry>();
+// Counts requests per identifier (IP or API key) in fixed one-minute
+// windows and weighs the previous window by how much of it still overlaps
+// the sliding window. Counters live in the shared store (./store), so all
+// instances enforce one limit; each check is an atomic increment.
 
 // --- CONFIG ---
 const MAX_REQUESTS = 10;       // Max requests per window
 const WINDOW_MS = 60 * 1000;   // 1 minute window
-const CLEANUP_INTERVAL = 5 * 60 * 1000; // Clean stale entries every 5 min
+const MAX_TRACKED_KEYS = 10_000; // LRU bound for the memory and file stores
 
-// Periodic cleanup to prevent memory leaks
-setInterval(() => {
-    const now = Date.now();
-    for (const [key, entry] of store.entries()) {
-        // Remove entries with no recent activity
-        if (entry.timestamps.length === 0 || entry.timestamps[entry.timestamps.length - 1] < now - WINDOW_MS * 2) {
-            store.delete(key);
-        }
-    }
-}, CLEANUP_INTERVAL);
+const store = createStore("ratelimit", { maxEntries: MAX_TRACKED_KEYS });
 
 export interface RateLimitResult {
     allowed: boolean;
+    limit: number;
     remaining: number;
     retryAfterMs: number | null;
 }
 
+export interface RateLimitOptions {
+    maxRequests?: number; // Per window; defaults to MAX_REQUESTS
+    cost?: number;        // Requests this call counts as (e.g. one per user in a batch)
+}
+
+/**
+ * How long until `cost` more requests fit, given the previous and current
+ * window counts and how far (0-1) into the current window we are.
+ */
+function retryAfter(previous: number, current: number, elapsed: number, cost: number, maxRequests: number): number {
+    // A cost above the limit can never fit: wait a full window
+    if (cost > maxRequests) return WINDOW_MS;
+    if (current + cost <= maxRequests) {
+        // The previous window's weight fades out before this one ends
+        return WINDOW_MS * (1 - elapsed - (maxRequests - cost - current) / previous);
+    }
+    // Only once this window becomes the previous one and fades enough
+    return WINDOW_MS * (1 - elapsed) + WINDOW_MS * (1 - (maxRequests - cost) / current);
+}
+
 /**
  * Check if a request from the given identifier (IP or key) is allowed.
- * Uses a sliding window algorithm.
+ * A call is allowed only if its whole cost fits in the window. When the
+ * store is unreachable, requests are let through rather than blocked.
  */
-export function checkRateLimit(identifier: string): RateLimitResult {
+export async function checkRateLimit(
+    identifier: string,
+    { maxRequests = MAX_REQUESTS, cost = 1 }: RateLimitOptions = {}
+): Promise<RateLimitResult> {
     const now = Date.now();
-    const windowStart = now - WINDOW_MS;
+    const window = Math.floor(now / WINDOW_MS);
+    const elapsed = (now % WINDOW_MS) / WINDOW_MS;
+    const currentKey = `${identifier}:${window}`;
+    // Counters must outlive the next window, where they count as "previous"
+    const ttlMs = WINDOW_MS * 2;
 
-    let entry = store.get(identifier);
-    if (!entry) {
-        entry = { timestamps: [] };
-        store.set(identifier, entry);
+    let previous: number;
+    let current: number;
+    try {
+        // Increment first, so concurrent checks on other instances see this request
+        [previous, current] = await Promise.all([
+            store.get<number>(`${identifier}:${window - 1}`).then((count) => count ?? 0),
+            store.increment(currentKey, cost, ttlMs),
+        ]);
+    } catch (error) {
+        console.warn(`[RateLimit] Store unavailable, allowing ${identifier}:`, error);
+        return { allowed: true, limit: maxRequests, remaining: maxRequests, retryAfterMs: null };
     }
 
-    // Remove timestamps outside the current window
-    entry.timestamps = entry.timestamps.filter((t) => t > windowStart);
-
-    if (entry.timestamps.length >= MAX_REQUESTS) {
-        // Rate limited — calculate when the oldest request in the window expires
-        const oldestInWindow = entry.timestamps[0];
-        const retryAfterMs = oldestInWindow + WINDOW_MS - now;
+    const weighted = previous * (1 - elapsed) + current;
+    if (weighted > maxRequests) {
+        // Rate limited — take this request back out of the count
+        const before = current - cost;
+        await store.increment(currentKey, -cost, ttlMs).catch(() => {});
 
         return {
             allowed: false,
-            remaining: 0,
-            retryAfterMs: Math.max(0, retryAfterMs),
+            limit: maxRequests,
+            remaining: Math.max(0, maxRequests - Math.ceil(previous * (1 - elapsed) + before)),
+            retryAfterMs: Math.max(0, Math.ceil(retryAfter(previous, before, elapsed, cost, maxRequests))),
         };
     }
 
-    // Allowed — record this request
-    entry.timestamps.push(now);
-
     return {
         allowed: true,
-        remaining: MAX_REQUESTS - entry.timestamps.length,
+        limit: maxRequests,
+        remaining: Math.max(0, maxRequests - Math.ceil(weighted)),
         retryAfterMs: null,
     };
 }
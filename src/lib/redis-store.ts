@@ -0,0 +1,236 @@
+import net from "net";
+import tls from "tls";
+import { StoreError } from "./errors";
+import type { KeyValueStore } from "./store";
+
+// ============================================
+// Redis-Protocol Store (server-only)
+// ============================================
+// A minimal RESP2 client, just enough for KeyValueStore: GET, SET PX, DEL,
+// INCRBY and PEXPIRE. Works with Redis, Valkey, KeyDB, Dragonfly or any
+// local stand-in that speaks the protocol, with no extra dependency.
+// One connection per URL and process, shared by every namespace; commands
+// are pipelined and replies matched in order.
+
+// --- CONFIG ---
+const KEY_PREFIX = "gpa";                // gpa:{namespace}:{key}
+const CONNECT_TIMEOUT_MS = 5 * 1000;
+const COMMAND_TIMEOUT_MS = 5 * 1000;
+const RECONNECT_COOLDOWN_MS = 5 * 1000;  // Fail fast for a while after a failed connect
+
+type RedisReply = string | number | null | RedisReply[];
+
+interface PendingCommand {
+    resolve: (reply: RedisReply) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+interface RedisClient {
+    command(args: (string | number)[]): Promise<RedisReply>;
+}
+
+function encodeCommand(args: (string | number)[]): string {
+    return `*${args.length}\r\n` + args.map((arg) => {
+        const value = String(arg);
+        return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+    }).join("");
+}
+
+/**
+ * Parses one reply starting at `offset`. Null when the buffer doesn't
+ * hold all of it yet. Error replies come back as Error values.
+ */
+function parseReply(buffer: Buffer, offset: number): { reply: RedisReply | Error; next: number } | null {
+    const lineEnd = buffer.indexOf("\r\n", offset);
+    if (lineEnd === -1) return null;
+    const type = String.fromCharCode(buffer[offset]);
+    const line = buffer.toString("utf-8", offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+        case "+":
+            return { reply: line, next };
+        case "-":
+            return { reply: new Error(line), next };
+        case ":":
+            return { reply: Number(line), next };
+        case "$": {
+            const length = Number(line);
+            if (length < 0) return { reply: null, next };
+            if (buffer.length < next + length + 2) return null;
+            return { reply: buffer.toString("utf-8", next, next + length), next: next + length + 2 };
+        }
+        case "*": {
+            const count = Number(line);
+            if (count < 0) return { reply: null, next };
+            const items: RedisReply[] = [];
+            let cursor = next;
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buffer, cursor);
+                if (!item) return null;
+                if (item.reply instanceof Error) throw new StoreError(`Redis: ${item.reply.message}`);
+                items.push(item.reply);
+                cursor = item.next;
+            }
+            return { reply: items, next: cursor };
+        }
+        default:
+            throw new StoreError(`Unexpected Redis reply type "${type}"`);
+    }
+}
+
+function createRedisClient(redisUrl: string): RedisClient {
+    let socket: net.Socket | null = null;
+    let ready: Promise<void> | null = null;
+    let failedAt = 0;
+    let buffer: Buffer = Buffer.alloc(0);
+    const pending: PendingCommand[] = [];
+
+    // Drops the connection and everything waiting on it; the next command reconnects
+    const reset = (from: net.Socket, error: Error) => {
+        if (socket !== from) return;
+        socket = null;
+        ready = null;
+        buffer = Buffer.alloc(0);
+        from.destroy();
+        for (const command of pending.splice(0)) {
+            clearTimeout(command.timer);
+            command.reject(error);
+        }
+    };
+
+    const onData = (from: net.Socket, chunk: Buffer) => {
+        buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+        let offset = 0;
+        try {
+            for (let parsed = parseReply(buffer, offset); parsed; parsed = parseReply(buffer, offset)) {
+                offset = parsed.next;
+                const command = pending.shift();
+                if (!command) continue;
+                clearTimeout(command.timer);
+                if (parsed.reply instanceof Error) command.reject(new StoreError(`Redis: ${parsed.reply.message}`));
+                else command.resolve(parsed.reply);
+            }
+        } catch (error) {
+            reset(from, error as Error);
+            return;
+        }
+        buffer = buffer.subarray(offset);
+    };
+
+    const send = (args: (string | number)[]): Promise<RedisReply> => {
+        const current = socket;
+        if (!current) return Promise.reject(new StoreError("Redis connection closed"));
+        return new Promise((resolve, reject) => {
+            // Replies come back in order, so one stuck reply blocks all of them: start over
+            const timer = setTimeout(
+                () => reset(current, new StoreError(`Redis command timed out after ${COMMAND_TIMEOUT_MS}ms`)),
+                COMMAND_TIMEOUT_MS
+            );
+            pending.push({ resolve, reject, timer });
+            current.write(encodeCommand(args));
+        });
+    };
+
+    const open = async (): Promise<void> => {
+        let url: URL;
+        try {
+            url = new URL(redisUrl);
+        } catch {
+            throw new StoreError(redisUrl ? "REDIS_URL is not a valid URL." : "REDIS_URL is not set.");
+        }
+        const secure = url.protocol === "rediss:";
+        const host = url.hostname;
+        const port = Number(url.port) || 6379;
+
+        await new Promise<void>((resolve, reject) => {
+            const next = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+            socket = next;
+            next.setNoDelay(true);
+            next.unref(); // Never keep the process alive just for the cache
+            const timer = setTimeout(
+                () => reset(next, new StoreError(`Could not connect to Redis at ${host}:${port} (timeout)`)),
+                CONNECT_TIMEOUT_MS
+            );
+            next.once(secure ? "secureConnect" : "connect", () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            next.on("data", (chunk: Buffer) => onData(next, chunk));
+            next.on("error", (error) => {
+                clearTimeout(timer);
+                const storeError = new StoreError(`Redis connection to ${host}:${port} failed: ${error.message}`, { cause: error });
+                reset(next, storeError);
+                reject(storeError);
+            });
+            next.on("close", () => {
+                clearTimeout(timer);
+                const storeError = new StoreError("Redis connection closed");
+                reset(next, storeError);
+                reject(storeError);
+            });
+        });
+
+        const password = decodeURIComponent(url.password);
+        const user = decodeURIComponent(url.username);
+        if (password) await send(user ? ["AUTH", user, password] : ["AUTH", password]);
+        const db = url.pathname.slice(1);
+        if (db) await send(["SELECT", db]);
+        console.log(`[Store] Connected to Redis at ${host}:${port}`);
+    };
+
+    return {
+        async command(args) {
+            if (!ready) {
+                if (Date.now() - failedAt < RECONNECT_COOLDOWN_MS) {
+                    throw new StoreError("Redis is unavailable (reconnecting shortly)");
+                }
+                ready = open().catch((error) => {
+                    failedAt = Date.now();
+                    if (socket) reset(socket, error);
+                    ready = null;
+                    throw error;
+                });
+            }
+            await ready;
+            return send(args);
+        },
+    };
+}
+
+const clients = new Map<string, RedisClient>();
+
+/** Keys live under gpa:{namespace}: on the server at `redisUrl`. */
+export function createRedisStore(redisUrl: string, namespace: string): KeyValueStore {
+    let client = clients.get(redisUrl);
+    if (!client) {
+        client = createRedisClient(redisUrl);
+        clients.set(redisUrl, client);
+    }
+    const redis = client;
+    const prefixed = (key: string) => `${KEY_PREFIX}:${namespace}:${key}`;
+    const ttl = (ttlMs: number) => Math.max(1, Math.ceil(ttlMs));
+
+    return {
+        kind: "redis",
+        async get<T>(key: string) {
+            const reply = await redis.command(["GET", prefixed(key)]);
+            return typeof reply === "string" ? (JSON.parse(reply) as T) : null;
+        },
+        async set<T>(key: string, value: T, ttlMs: number) {
+            await redis.command(["SET", prefixed(key), JSON.stringify(value), "PX", ttl(ttlMs)]);
+        },
+        async delete(key: string) {
+            await redis.command(["DEL", prefixed(key)]);
+        },
+        async increment(key: string, amount: number, ttlMs: number) {
+            // Pipelined on the same connection, so PEXPIRE always follows its INCRBY
+            const [value] = await Promise.all([
+                redis.command(["INCRBY", prefixed(key), amount]),
+                redis.command(["PEXPIRE", prefixed(key), ttl(ttlMs)]),
+            ]);
+            return Number(value);
+        },
+    };
+}
@@ -0,0 +1,184 @@
+import type { RepoInsights } from "./types";
+
+// ============================================
+// Repository Inspection — file tree & manifests
+// ============================================
+// Pure functions that turn a repo's file listing and a few root
+// manifests into concrete signals (tests, CI, Docker, dependencies,
+// frameworks). Fetching lives in ./github; this file never calls the API.
+
+/** Root files whose contents are fetched and parsed for dependencies. */
+export const DEPENDENCY_MANIFESTS = ["package.json", "requirements.txt", "go.mod", "Cargo.toml"] as const;
+
+export type DependencyManifest = (typeof DEPENDENCY_MANIFESTS)[number];
+
+// --- CONFIG ---
+const MAX_TEST_PATHS = 5;   // Sample kept for evidence/UI
+const MAX_CI_WORKFLOWS = 10;
+
+/** Vendored or generated directories that say nothing about the author's work. */
+const IGNORED_DIR = /(^|\/)(node_modules|vendor|dist|build|\.venv|venv|target|third_party)\//;
+
+const TEST_DIR = /(^|\/)(tests?|__tests__|specs?|e2e|cypress|playwright)\//i;
+const TEST_FILE = /(\.(test|spec)\.[cm]?[jt]sx?$)|(_test\.go$)|((^|\/)test_[^/]+\.py$)|(_test\.py$)|(Tests?\.(java|kt|cs)$)/;
+
+const CI_CONFIG = /^(\.github\/workflows\/[^/]+\.ya?ml|\.gitlab-ci\.yml|\.circleci\/config\.ya?ml|\.travis\.yml|Jenkinsfile|azure-pipelines\.ya?ml|bitbucket-pipelines\.yml)$/;
+
+const DOCKER_FILE = /(^|\/)(Dockerfile(\.[\w-]+)?|[\w-]+\.dockerfile|(docker-)?compose\.ya?ml)$/i;
+
+/** Dependency name → framework label, per ecosystem. */
+const FRAMEWORKS: Record<DependencyManifest, Record<string, string>> = {
+    "package.json": {
+        "next": "Next.js",
+        "react": "React",
+        "react-native": "React Native",
+        "vue": "Vue",
+        "nuxt": "Nuxt",
+        "@angular/core": "Angular",
+        "svelte": "Svelte",
+        "express": "Express",
+        "fastify": "Fastify",
+        "@nestjs/core": "NestJS",
+        "electron": "Electron",
+        "three": "Three.js",
+        "@tensorflow/tfjs": "TensorFlow.js",
+    },
+    "requirements.txt": {
+        "django": "Django",
+        "flask": "Flask",
+        "fastapi": "FastAPI",
+        "torch": "PyTorch",
+        "tensorflow": "TensorFlow",
+        "scikit-learn": "scikit-learn",
+        "pandas": "pandas",
+        "streamlit": "Streamlit",
+    },
+    "go.mod": {
+        "github.com/gin-gonic/gin": "Gin",
+        "github.com/labstack/echo/v4": "Echo",
+        "github.com/gofiber/fiber/v2": "Fiber",
+        "github.com/gorilla/mux": "Gorilla Mux",
+        "google.golang.org/grpc": "gRPC",
+    },
+    "Cargo.toml": {
+        "actix-web": "Actix Web",
+        "axum": "Axum",
+        "rocket": "Rocket",
+        "tokio": "Tokio",
+        "bevy": "Bevy",
+    },
+};
+
+// --- Manifest parsers (return declared dependency names) ---
+
+function parsePackageJson(content: string): string[] {
+    try {
+        const pkg = JSON.parse(content) as Record<string, unknown>;
+        return ["dependencies", "devDependencies", "peerDependencies"].flatMap((field) => {
+            const deps = pkg[field];
+            return typeof deps === "object" && deps !== null ? Object.keys(deps) : [];
+        });
+    } catch {
+        return [];
+    }
+}
+
+function parseRequirements(content: string): string[] {
+    return content
+        .split("\n")
+        .map((line) => line.replace(/#.*/, "").trim())
+        .filter((line) => line && !line.startsWith("-"))
+        .map((line) => line.split(/[\s<>=!~;[@]/)[0].toLowerCase())
+        .filter(Boolean);
+}
+
+function parseGoMod(content: string): string[] {
+    const deps: string[] = [];
+    let inBlock = false;
+    for (const raw of content.split("\n")) {
+        const line = raw.trim();
+        if (line.startsWith("require (")) {
+            inBlock = true;
+        } else if (inBlock && line === ")") {
+            inBlock = false;
+        } else if ((inBlock || line.startsWith("require ")) && !line.includes("// indirect")) {
+            const [modulePath] = line.replace(/^require\s+/, "").split(/\s+/);
+            if (modulePath) deps.push(modulePath);
+        }
+    }
+    return deps;
+}
+
+function parseCargoToml(content: string): string[] {
+    const deps: string[] = [];
+    let inDeps = false;
+    for (const raw of content.split("\n")) {
+        const line = raw.replace(/#.*/, "").trim();
+        const section = line.match(/^\[([^\]]+)\]$/);
+        if (section) {
+            // [dependencies.serde] declares one dependency as a table
+            const table = section[1].match(/^(?:dev-|build-)?dependencies\.(.+)$/);
+            if (table) deps.push(table[1]);
+            inDeps = /^(dev-|build-)?dependencies$/.test(section[1]);
+        } else if (inDeps) {
+            const key = line.match(/^([\w-]+)\s*=/);
+            if (key) deps.push(key[1]);
+        }
+    }
+    return deps;
+}
+
+const PARSERS: Record<DependencyManifest, (content: string) => string[]> = {
+    "package.json": parsePackageJson,
+    "requirements.txt": parseRequirements,
+    "go.mod": parseGoMod,
+    "Cargo.toml": parseCargoToml,
+};
+
+/** Collapses files inside a test directory to the directory itself ("src/__tests__/"). */
+function testLocation(path: string): string {
+    const match = path.match(TEST_DIR);
+    return match ? path.slice(0, (match.index ?? 0) + match[0].length) : path;
+}
+
+/**
+ * Derives signals from a repo's file paths (blobs only, relative to the
+ * root) and the contents of any root dependency manifests that were fetched.
+ */
+export function deriveRepoInsights(
+    paths: string[],
+    truncated: boolean,
+    manifests: Partial<Record<DependencyManifest, string>>
+): RepoInsights {
+    const ownPaths = paths.filter((p) => !IGNORED_DIR.test(p));
+    const rootFiles = new Set(ownPaths.filter((p) => !p.includes("/")));
+
+    const testPaths = ownPaths.filter((p) => TEST_DIR.test(p) || TEST_FILE.test(p));
+    const ciWorkflows = ownPaths.filter((p) => CI_CONFIG.test(p));
+
+    const dependencies = new Set<string>();
+    const frameworks = new Set<string>();
+    for (const manifest of DEPENDENCY_MANIFESTS) {
+        const content = manifests[manifest];
+        if (content === undefined) continue;
+        for (const dep of PARSERS[manifest](content)) {
+            dependencies.add(`${manifest}:${dep}`);
+            const framework = FRAMEWORKS[manifest][dep];
+            if (framework) frameworks.add(framework);
+        }
+    }
+
+    return {
+        file_count: ownPaths.length,
+        tree_truncated: truncated,
+        manifests: [...DEPENDENCY_MANIFESTS, "tsconfig.json", "Dockerfile"].filter((m) => rootFiles.has(m)),
+        has_tests: testPaths.length > 0,
+        test_paths: [...new Set(testPaths.map(testLocation))].slice(0, MAX_TEST_PATHS),
+        has_ci: ciWorkflows.length > 0,
+        ci_workflows: ciWorkflows.slice(0, MAX_CI_WORKFLOWS),
+        has_docker: ownPaths.some((p) => DOCKER_FILE.test(p)),
+        has_typescript: ownPaths.some((p) => /(^|\/)tsconfig(\.[\w-]+)?\.json$/.test(p)),
+        dependency_count: dependencies.size,
+        frameworks: [...frameworks],
+    };
+}
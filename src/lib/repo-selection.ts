@@ -0,0 +1,156 @@
+import { env, envInt } from "./env";
+import type { RepoCandidate, RepoSource } from "./types";
+
+// ============================================
+// Repository Selection Strategy
+// ============================================
+// Decides which of a user's repos get analyzed. fetchGitHubData pages
+// through up to `poolSize` owned repos, then this module filters, ranks
+// and keeps the top `keep`, with pinned repos always first.
+
+// --- CONFIG ---
+const MAX_CANDIDATES = 50; // Repos offered in the picker (plus the analyzed ones)
+
+export interface RepoSelectionWeights {
+    stars: number;       // Per star
+    original: number;    // Not a fork
+    description: number; // Has a description
+    topics: number;      // Has at least one topic
+}
+
+export interface RepoSelectionStrategy {
+    source: RepoSource;     // "pinned" also pulls the profile's pinned repos (GraphQL)
+    poolSize: number;       // Max repos fetched (paginated, most recently updated first)
+    keep: number;           // Repos analyzed; pins count toward this
+    weights: RepoSelectionWeights;
+    includeForks: boolean;
+    includeArchived: boolean;
+    includeTemplates: boolean;
+    pinned: string[];       // Repo names always kept, in this order
+    onlyPinned: boolean;    // Analyze the pins and nothing else (manual selection)
+}
+
+/** The fields ranking needs; satisfied by the REST repo objects. */
+export interface RankableRepo {
+    name: string;
+    stargazers_count?: number;
+    fork?: boolean;
+    archived?: boolean;
+    is_template?: boolean;
+    description?: string | null;
+    topics?: string[];
+}
+
+// Stars > Original Work > Has Description > Has Topics
+export const DEFAULT_SELECTION_STRATEGY: RepoSelectionStrategy = {
+    source: env.REPO_SOURCE,
+    poolSize: envInt(env.REPO_POOL_SIZE, 300),
+    keep: envInt(env.REPO_KEEP, 6),
+    weights: { stars: 5, original: 10, description: 5, topics: 3 },
+    includeForks: true,
+    includeArchived: true,
+    includeTemplates: true,
+    pinned: [],
+    onlyPinned: false,
+};
+
+// --- Manual selection (report URL: ?repos=a,b,c) ---
+export const MAX_SELECTED_REPOS = 10;
+const REPO_NAME = /^[A-Za-z0-9._-]{1,100}$/;
+
+/**
+ * Parses a comma-separated repo list from the URL: valid names only,
+ * deduplicated (case-insensitive), at most MAX_SELECTED_REPOS.
+ */
+export function parseRepoSelection(value: string | string[] | undefined): string[] {
+    const raw = Array.isArray(value) ? value.join(",") : value ?? "";
+    const seen = new Set<string>();
+    return raw
+        .split(",")
+        .map((name) => name.trim())
+        .filter((name) => {
+            const lower = name.toLowerCase();
+            if (!REPO_NAME.test(name) || seen.has(lower)) return false;
+            seen.add(lower);
+            return true;
+        })
+        .slice(0, MAX_SELECTED_REPOS);
+}
+
+/** Order-insensitive cache key segment ("" when no manual selection). */
+export function repoSelectionCacheKey(repos: string[]): string {
+    return repos.map((name) => name.toLowerCase()).sort().join(",");
+}
+
+export function resolveSelectionStrategy(
+    overrides: Partial<RepoSelectionStrategy> = {}
+): RepoSelectionStrategy {
+    return {
+        ...DEFAULT_SELECTION_STRATEGY,
+        ...overrides,
+        weights: { ...DEFAULT_SELECTION_STRATEGY.weights, ...overrides.weights },
+    };
+}
+
+/** Relevance ("impact") score of a repo under the given weights. */
+export function repoRelevance(repo: RankableRepo, weights: RepoSelectionWeights): number {
+    return (repo.stargazers_count ?? 0) * weights.stars
+        + (!repo.fork ? weights.original : 0)
+        + (repo.description ? weights.description : 0)
+        + ((repo.topics?.length ?? 0) > 0 ? weights.topics : 0);
+}
+
+/**
+ * The repo picker's options, slimmed down: the MAX_CANDIDATES most
+ * relevant repos of the pool, plus the `selected` ones ranked lower.
+ * Stored with every result, so it stays small even for large pools.
+ */
+export function rankCandidates<T extends RankableRepo & { language?: string | null; pushed_at?: string | null }>(
+    pool: T[],
+    weights: RepoSelectionWeights,
+    selected: string[] = []
+): RepoCandidate[] {
+    const keep = new Set(selected.map((name) => name.toLowerCase()));
+    return [...pool]
+        .sort((a, b) => repoRelevance(b, weights) - repoRelevance(a, weights))
+        .filter((repo, i) => i < MAX_CANDIDATES || keep.has(repo.name.toLowerCase()))
+        .map((repo) => ({
+            name: repo.name,
+            description: repo.description ?? null,
+            language: repo.language ?? null,
+            stargazers_count: repo.stargazers_count ?? 0,
+            fork: repo.fork ?? false,
+            archived: repo.archived ?? false,
+            pushed_at: repo.pushed_at ?? "",
+        }));
+}
+
+/**
+ * Picks the repos to analyze from the pool.
+ * Pins come first (and bypass the fork/archived/template filters), then
+ * the remaining eligible repos by relevance; ties keep pool order.
+ */
+export function selectRepos<T extends RankableRepo>(
+    pool: T[],
+    strategy: RepoSelectionStrategy,
+    pinned: string[] = strategy.pinned
+): T[] {
+    const byName = new Map(pool.map((repo) => [repo.name.toLowerCase(), repo]));
+    const pins = [...new Set(pinned.map((name) => name.toLowerCase()))]
+        .map((name) => byName.get(name))
+        .filter((repo): repo is T => !!repo);
+    const pinnedNames = new Set(pins.map((repo) => repo.name));
+
+    const ranked = pool
+        .filter((repo) => !pinnedNames.has(repo.name))
+        .filter((repo) =>
+            (strategy.includeForks || !repo.fork) &&
+            (strategy.includeArchived || !repo.archived) &&
+            (strategy.includeTemplates || !repo.is_template)
+        )
+        .map((repo) => ({ repo, relevance: repoRelevance(repo, strategy.weights) }))
+        .sort((a, b) => b.relevance - a.relevance)
+        .map(({ repo }) => repo);
+
+    return (strategy.onlyPinned ? pins : [...pins, ...ranked]).slice(0, strategy.keep);
+}
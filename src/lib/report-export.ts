@@ -0,0 +1,207 @@
+import { renderPdf, type PdfBlock, type PdfColor } from "./pdf";
+import type { AnalysisResult, DimensionKey, GitHubProfileData } from "./types";
+
+// ============================================
+// Report Export (Markdown + PDF)
+// ============================================
+// Renders a finished analysis as a standalone document for hiring packets.
+// Generated server-side on a fixed light layout, so the output doesn't
+// depend on the browser or the site theme.
+
+export type ExportFormat = "pdf" | "md";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["pdf", "md"];
+
+const DIMENSIONS: { key: DimensionKey; label: string }[] = [
+    { key: "documentation", label: "Documentation" },
+    { key: "code_structure", label: "Code Structure" },
+    { key: "consistency", label: "Consistency" },
+    { key: "impact", label: "Impact" },
+    { key: "technical_depth", label: "Technical Depth" },
+];
+
+const ACCENT: PdfColor = [0.03, 0.47, 0.58];
+const MUTED: PdfColor = [0.45, 0.45, 0.5];
+const WARNING: PdfColor = [0.7, 0.45, 0];
+
+/** Same bands as the report page: red < 50 ≤ yellow < 80 ≤ green (dimensions: 4 and 7 of 10). */
+function scoreColor(ratio: number): PdfColor {
+    if (ratio < 0.5) return [0.86, 0.2, 0.2];
+    if (ratio < 0.8) return [0.85, 0.62, 0.05];
+    return [0.06, 0.65, 0.45];
+}
+
+function dimensionColor(score: number): PdfColor {
+    return score >= 7 ? scoreColor(1) : score >= 4 ? scoreColor(0.6) : scoreColor(0);
+}
+
+function verdictLabel(data: AnalysisResult): string {
+    if (data.isMockData) return "Demo data";
+    if (data.isPartial) return "Heuristic only (no verdict)";
+    return data.recruiter_verdict;
+}
+
+/** "2024-01-31 12:00 UTC" */
+function formatTimestamp(iso: string): string {
+    return `${new Date(iso).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+export function exportFileName(login: string, format: ExportFormat): string {
+    return `${login}-portfolio-report.${format}`;
+}
+
+function profileFacts(profileData: GitHubProfileData): string[] {
+    const { user } = profileData;
+    return [
+        user.company,
+        user.location,
+        `${user.followers} followers`,
+        `${user.public_repos} public repos`,
+        `joined ${user.created_at.slice(0, 4)}`,
+    ].filter((fact): fact is string => !!fact);
+}
+
+function degradedNotice(data: AnalysisResult): string | null {
+    if (data.isMockData) return "Demo data: this report shows sample data, not a real analysis.";
+    if (data.isPartial) {
+        return `Heuristic-only result: ${data.partialReason ?? "the AI analysis was unavailable."} ` +
+            "The score comes from the rule engine only.";
+    }
+    return null;
+}
+
+// --- MARKDOWN ---
+
+/** Escapes user- and AI-provided text so it can't break the document's markdown. */
+function md(text: string): string {
+    return text.replace(/[\r\n]+/g, " ").replace(/[\\`*_{}[\]<>|#]/g, "\\$&");
+}
+
+export function reportToMarkdown(data: AnalysisResult, profileData: GitHubProfileData): string {
+    const { user, repos } = profileData;
+    const lines: string[] = [];
+
+    // Header
+    lines.push(`# ${md(user.name || user.login)} ([@${md(user.login)}](${user.html_url}))`, "");
+    if (user.bio) lines.push(`> ${md(user.bio)}`, "");
+    lines.push(profileFacts(profileData).map(md).join(" · "), "");
+
+    const notice = degradedNotice(data);
+    if (notice) lines.push(`> **Note:** ${md(notice)}`, "");
+
+    // Score
+    lines.push("## Score", "");
+    lines.push(`**${data.total_score}/100** · ${verdictLabel(data)}`, "");
+    lines.push(md(data.summary), "");
+
+    if (data.role_fit) {
+        const fit = data.role_fit;
+        lines.push(`## Role Fit: ${md(fit.role_title)} (${fit.seniority})`, "");
+        lines.push(`**${fit.score}/100**`, "");
+        if (fit.matched_skills.length > 0) {
+            lines.push(`Matched: ${fit.matched_skills.map((s) => md(s.skill)).join(", ")}`, "");
+        }
+        if (fit.missing_skills.length > 0) {
+            lines.push(`Missing: ${fit.missing_skills.map(md).join(", ")}`, "");
+        }
+    }
+
+    // Dimensions
+    lines.push("## Dimension Scores", "");
+    lines.push("| Dimension | Score | Comment |", "| --- | --- | --- |");
+    for (const { key, label } of DIMENSIONS) {
+        const dim = data.dimensions[key];
+        lines.push(`| ${label} | ${dim.score}/10 | ${md(dim.comment)} |`);
+    }
+    lines.push("");
+
+    // Feedback
+    lines.push("## Actionable Feedback", "");
+    data.actionable_feedback.forEach((item, i) => lines.push(`${i + 1}. ${md(item)}`));
+    lines.push("");
+
+    // Repos
+    lines.push("## Analyzed Repositories", "");
+    lines.push("| Repository | Language | Stars | Forks | README | Description |", "| --- | --- | --- | --- | --- | --- |");
+    for (const repo of repos) {
+        lines.push(
+            `| [${md(repo.name)}](${repo.html_url}) | ${md(repo.language ?? "—")} | ${repo.stargazers_count} | ` +
+            `${repo.forks_count} | ${repo.readme_content ? "Yes" : "No"} | ${md(repo.description ?? "")} |`
+        );
+    }
+    lines.push("");
+
+    lines.push("---", "");
+    lines.push(`*Generated from GitHub data fetched at ${formatTimestamp(profileData.fetchedAt)} by GitHub Portfolio Analyzer.*`);
+    return lines.join("\n") + "\n";
+}
+
+// --- PDF ---
+
+export function reportToPdf(data: AnalysisResult, profileData: GitHubProfileData): Uint8Array<ArrayBuffer> {
+    const { user, repos } = profileData;
+    const blocks: PdfBlock[] = [];
+
+    // Header
+    blocks.push({ type: "heading", text: user.name || user.login, size: 22 });
+    blocks.push({ type: "text", text: `@${user.login} · ${user.html_url}`, color: ACCENT });
+    if (user.bio) blocks.push({ type: "text", text: user.bio, size: 11 });
+    blocks.push({ type: "text", text: profileFacts(profileData).join(" · "), size: 9, color: MUTED });
+
+    const notice = degradedNotice(data);
+    if (notice) blocks.push({ type: "text", text: notice, size: 9, bold: true, color: WARNING });
+    blocks.push({ type: "rule" });
+
+    // Score
+    blocks.push({ type: "pair", label: data.isPartial ? "Heuristic Score (rule engine only)" : "Hiring Signal Score", value: `${data.total_score}/100`, size: 16 });
+    blocks.push({ type: "bar", ratio: data.total_score / 100, color: scoreColor(data.total_score / 100), height: 8 });
+    blocks.push({ type: "pair", label: "Verdict", value: verdictLabel(data), size: 11 });
+    blocks.push({ type: "space", height: 4 });
+    blocks.push({ type: "text", text: data.summary, size: 11 });
+
+    if (data.role_fit) {
+        const fit = data.role_fit;
+        blocks.push({ type: "heading", text: `Role Fit: ${fit.role_title} (${fit.seniority})`, color: ACCENT });
+        blocks.push({ type: "pair", label: "Fit score", value: `${fit.score}/100` });
+        blocks.push({ type: "bar", ratio: fit.score / 100, color: scoreColor(fit.score / 100) });
+        if (fit.matched_skills.length > 0) {
+            blocks.push({ type: "text", text: `Matched: ${fit.matched_skills.map((s) => s.skill).join(", ")}` });
+        }
+        if (fit.missing_skills.length > 0) {
+            blocks.push({ type: "text", text: `Missing: ${fit.missing_skills.join(", ")}`, color: MUTED });
+        }
+    }
+
+    // Dimensions
+    blocks.push({ type: "heading", text: "Dimension Scores", color: ACCENT });
+    for (const { key, label } of DIMENSIONS) {
+        const dim = data.dimensions[key];
+        blocks.push({ type: "pair", label, value: `${dim.score}/10` });
+        blocks.push({ type: "bar", ratio: dim.score / 10, color: dimensionColor(dim.score), height: 5 });
+        blocks.push({ type: "text", text: dim.comment, size: 9, color: MUTED });
+    }
+
+    // Feedback
+    blocks.push({ type: "heading", text: "Actionable Feedback", color: ACCENT });
+    for (const item of data.actionable_feedback) blocks.push({ type: "bullet", text: item });
+
+    // Repos
+    blocks.push({ type: "heading", text: "Analyzed Repositories", color: ACCENT });
+    for (const repo of repos) {
+        const facts = [
+            repo.language,
+            `${repo.stargazers_count} stars`,
+            `${repo.forks_count} forks`,
+            repo.readme_content ? "README" : "no README",
+        ].filter(Boolean).join(" · ");
+        blocks.push({ type: "pair", label: repo.name, value: facts, size: 10 });
+        if (repo.description) blocks.push({ type: "text", text: repo.description, size: 9, color: MUTED, indent: 10 });
+        else blocks.push({ type: "space", height: 4 });
+    }
+
+    return renderPdf(blocks, {
+        title: `GitHub portfolio report: ${user.login}`,
+        footer: `Generated from GitHub data fetched at ${formatTimestamp(profileData.fetchedAt)} · GitHub Portfolio Analyzer`,
+        createdAt: new Date(profileData.fetchedAt),
+    });
+}
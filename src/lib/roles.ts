@@ -0,0 +1,289 @@
+import type {
+    GitHubProfileData,
+    GitHubRepo,
+    ProfileType,
+    RoleFit,
+    RoleProfile,
+    Seniority,
+    SkillMatch,
+} from "./types";
+import { classifyRepoTier } from "./scoring";
+
+// ============================================
+// Role Profiles & Job-Description Matching
+// ============================================
+// Pure functions only — safe to import from client components.
+// A role is reduced to a list of skills + seniority so it can be
+// encoded in the report URL and shared.
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_ROLE_SKILLS = 15;
+
+/**
+ * Known skill vocabulary. `languages` match GitHub's repo language field;
+ * `topic` replaces `pattern` for repo topics when the two differ. Skills
+ * named after ordinary words (go, swift, react, node, spring, container)
+ * only match explicit forms in prose; the bare word counts as a topic.
+ */
+const SKILLS: { name: string; pattern: RegExp; topic?: RegExp; language?: boolean }[] = [
+    // Languages
+    { name: "JavaScript", pattern: /\b(javascript|js|es6)\b/i, language: true },
+    { name: "TypeScript", pattern: /\b(typescript|ts)\b/i, language: true },
+    { name: "Python", pattern: /\bpython\b/i, language: true },
+    { name: "Java", pattern: /\bjava\b(?!script)/i, language: true },
+    { name: "Go", pattern: /\bgolang\b|\bgo\s*\((programming )?lang(uage)?\)/i, topic: /^go(lang)?$/i, language: true },
+    { name: "Rust", pattern: /\brust\b/i, language: true },
+    { name: "C++", pattern: /\bc\+\+|\bcpp\b/i, language: true },
+    { name: "C#", pattern: /\bc#|\.net\b|\bdotnet\b/i, language: true },
+    { name: "Ruby", pattern: /\bruby\b/i, language: true },
+    { name: "PHP", pattern: /\bphp\b/i, language: true },
+    { name: "Kotlin", pattern: /\bkotlin\b/i, language: true },
+    {
+        name: "Swift",
+        pattern: /\bswift\s*(lang(uage)?\b|ui\b|\d)|\b(ios|xcode)\b[^.\n]{0,60}\bswift\b|\bswift\b[^.\n]{0,60}\b(ios|xcode)\b/i,
+        topic: /^swift(ui)?$/i,
+        language: true,
+    },
+    // Frameworks
+    { name: "React", pattern: /\breact(\.?js|\s+native)\b/i, topic: /^react(\.?js| native)?$/i },
+    { name: "Next.js", pattern: /\bnext\.?js\b/i },
+    { name: "Vue", pattern: /\bvue(\.?js)?\b/i },
+    { name: "Angular", pattern: /\bangular\b/i },
+    { name: "Svelte", pattern: /\bsvelte\b/i },
+    { name: "Node.js", pattern: /\bnode\.?js\b/i, topic: /^node(\.?js)?$/i },
+    { name: "Express", pattern: /\bexpress\.?js\b|\bnode(\.?js)?\s*\/\s*express\b/i },
+    { name: "Django", pattern: /\bdjango\b/i },
+    { name: "Flask", pattern: /\bflask\b/i },
+    { name: "FastAPI", pattern: /\bfastapi\b/i },
+    { name: "Spring", pattern: /\bspring[ -]?(boot|framework|mvc|cloud)\b/i, topic: /^spring( boot| framework)?$/i },
+    { name: "Rails", pattern: /\b(rails|ruby on rails)\b/i },
+    { name: "Tailwind", pattern: /\btailwind(css)?\b/i },
+    { name: "TensorFlow", pattern: /\btensorflow\b/i },
+    { name: "PyTorch", pattern: /\bpytorch\b/i },
+    { name: "Pandas", pattern: /\bpandas\b/i },
+    // Tools & platforms
+    { name: "Docker", pattern: /\b(docker|dockerfile)\b/i, topic: /^(docker|dockerfile|containers?)$/i },
+    { name: "Kubernetes", pattern: /\b(kubernetes|k8s)\b/i },
+    { name: "AWS", pattern: /\b(aws|amazon web services)\b/i },
+    { name: "GCP", pattern: /\b(gcp|google cloud)\b/i },
+    { name: "Azure", pattern: /\bazure\b/i },
+    { name: "Terraform", pattern: /\bterraform\b/i },
+    { name: "GraphQL", pattern: /\bgraphql\b/i },
+    { name: "PostgreSQL", pattern: /\b(postgres(ql)?)\b/i },
+    { name: "MongoDB", pattern: /\bmongo(db)?\b/i },
+    { name: "Redis", pattern: /\bredis\b/i },
+    { name: "CI/CD", pattern: /\b(ci\/cd|github actions|continuous integration|jenkins|gitlab ci)\b/i },
+];
+
+/** Saved role profiles selectable in the search form. */
+export const ROLE_PROFILES: RoleProfile[] = [
+    {
+        id: "frontend",
+        title: "Frontend Engineer",
+        seniority: "mid",
+        skills: ["TypeScript", "JavaScript", "React", "Next.js", "Tailwind", "CI/CD"],
+    },
+    {
+        id: "backend",
+        title: "Backend Engineer",
+        seniority: "mid",
+        skills: ["Go", "Python", "Node.js", "PostgreSQL", "Redis", "Docker", "GraphQL"],
+    },
+    {
+        id: "fullstack",
+        title: "Full-Stack Engineer",
+        seniority: "mid",
+        skills: ["TypeScript", "React", "Node.js", "PostgreSQL", "Docker", "AWS"],
+    },
+    {
+        id: "ml",
+        title: "ML Engineer",
+        seniority: "mid",
+        skills: ["Python", "PyTorch", "TensorFlow", "Pandas", "Docker"],
+    },
+    {
+        id: "devops",
+        title: "DevOps / Platform Engineer",
+        seniority: "senior",
+        skills: ["Docker", "Kubernetes", "Terraform", "AWS", "CI/CD", "Go"],
+    },
+];
+
+const SENIORITY_LEVELS: Seniority[] = ["junior", "mid", "senior"];
+
+function detectSeniority(text: string): Seniority {
+    if (/\b(senior|sr\.?|lead|staff|principal)\b/i.test(text)) return "senior";
+    if (/\b(junior|jr\.?|entry[- ]level|graduate|intern(ship)?)\b/i.test(text)) return "junior";
+    return "mid";
+}
+
+/**
+ * Extracts a role profile from a pasted job description:
+ * known skills mentioned anywhere, seniority keywords, and the first
+ * non-empty line as the title.
+ */
+export function parseJobDescription(text: string): RoleProfile {
+    const title = text
+        .split("\n")
+        .map((line) => line.trim())
+        .find(Boolean)
+        ?.slice(0, MAX_TITLE_LENGTH) ?? "Custom Role";
+
+    return {
+        id: "custom",
+        title,
+        seniority: detectSeniority(text),
+        skills: SKILLS.filter(({ pattern }) => pattern.test(text))
+            .map(({ name }) => name)
+            .slice(0, MAX_ROLE_SKILLS),
+    };
+}
+
+/** Serializes a role into report URL query params. */
+export function roleToSearchParams(role: RoleProfile): URLSearchParams {
+    if (role.id !== "custom") {
+        return new URLSearchParams({ role: role.id });
+    }
+    return new URLSearchParams({
+        role: "custom",
+        title: role.title,
+        level: role.seniority,
+        skills: role.skills.join(","),
+    });
+}
+
+/**
+ * Rebuilds a role from report URL query params.
+ * Returns null for the generic (role-less) analysis or invalid input.
+ */
+export function roleFromSearchParams(
+    params: Record<string, string | string[] | undefined>
+): RoleProfile | null {
+    const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+    const id = first(params.role);
+    if (!id) return null;
+
+    if (id !== "custom") {
+        return ROLE_PROFILES.find((r) => r.id === id) ?? null;
+    }
+
+    // Only accept skills from the known vocabulary
+    const known = new Map(SKILLS.map(({ name }) => [name.toLowerCase(), name]));
+    const skills = (first(params.skills) ?? "")
+        .split(",")
+        .map((s) => known.get(s.trim().toLowerCase()))
+        .filter((s): s is string => !!s)
+        .slice(0, MAX_ROLE_SKILLS);
+    if (skills.length === 0) return null;
+
+    const level = first(params.level) as Seniority | undefined;
+
+    return {
+        id: "custom",
+        title: (first(params.title) ?? "Custom Role").slice(0, MAX_TITLE_LENGTH),
+        seniority: level && SENIORITY_LEVELS.includes(level) ? level : "mid",
+        skills,
+    };
+}
+
+/**
+ * Round-trips a role through its URL form so only presets and
+ * known-vocabulary skills survive (server actions accept any input).
+ */
+export function normalizeRole(role: RoleProfile | null): RoleProfile | null {
+    if (!role) return null;
+    return roleFromSearchParams(Object.fromEntries(roleToSearchParams(role)));
+}
+
+/** Stable cache-key fragment for a role ("" for generic analysis). */
+export function roleCacheKey(role: RoleProfile | null): string {
+    if (!role) return "";
+    return `${role.id}:${role.title}:${role.seniority}:${[...role.skills].sort().join(",")}`;
+}
+
+// --- Role Fit Scoring ---
+
+function findSkillEvidence(skill: string, repos: GitHubRepo[]): string[] {
+    const def = SKILLS.find((s) => s.name === skill);
+    if (!def) return [];
+
+    return repos.flatMap((repo) => {
+        if (def.language && repo.language?.toLowerCase() === skill.toLowerCase()) {
+            return [`${repo.name} (language)`];
+        }
+        if (repo.topics.some((topic) => (def.topic ?? def.pattern).test(topic.replace(/-/g, " ")))) {
+            return [`${repo.name} (topic)`];
+        }
+        if (def.pattern.test(`${repo.description ?? ""}\n${repo.readme_content ?? ""}`)) {
+            return [`${repo.name} (README)`];
+        }
+        return [];
+    });
+}
+
+// Seniority signals: [threshold for 1 point, threshold for 2 points]
+const ACCOUNT_AGE_YEARS = [2, 5];
+const PROVEN_REPOS = [1, 3];  // Tier 3 repos among the analyzed ones
+const ACTIVE_WEEKS = [12, 26]; // Weeks with commits in the last 52
+const SENIOR_POINTS = 5;       // Of 6; MID_POINTS and up is mid
+const MID_POINTS = 2;
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+function signalPoints(value: number, [one, two]: number[]): number {
+    return value >= two ? 2 : value >= one ? 1 : 0;
+}
+
+/**
+ * Estimates the candidate's seniority from what GitHub shows: account
+ * age, repos of proven complexity and commit activity over the last year.
+ * Students are treated as junior candidates.
+ */
+function estimateSeniority(profileData: GitHubProfileData, profileType: ProfileType): Seniority {
+    if (profileType === "student") return "junior";
+
+    const ageYears = (Date.parse(profileData.fetchedAt) - Date.parse(profileData.user.created_at)) / YEAR_MS;
+    const provenRepos = profileData.repos.filter((repo) => classifyRepoTier(repo) === 3).length;
+    const points =
+        signalPoints(ageYears, ACCOUNT_AGE_YEARS) +
+        signalPoints(provenRepos, PROVEN_REPOS) +
+        signalPoints(profileData.activity?.consistency.active_weeks ?? 0, ACTIVE_WEEKS);
+
+    return points >= SENIOR_POINTS ? "senior" : points >= MID_POINTS ? "mid" : "junior";
+}
+
+/**
+ * Deterministic role fit (0-100):
+ * 80% skill coverage + 20% seniority match (see estimateSeniority).
+ */
+export function scoreRoleFit(
+    profileData: GitHubProfileData,
+    role: RoleProfile,
+    profileType: ProfileType
+): RoleFit {
+    const matched: SkillMatch[] = [];
+    const missing: string[] = [];
+
+    for (const skill of role.skills) {
+        const evidence = findSkillEvidence(skill, profileData.repos);
+        if (evidence.length > 0) {
+            matched.push({ skill, evidence });
+        } else {
+            missing.push(skill);
+        }
+    }
+
+    const coverage = role.skills.length > 0 ? matched.length / role.skills.length : 0;
+    const candidateSeniority = estimateSeniority(profileData, profileType);
+    const candidateLevel = SENIORITY_LEVELS.indexOf(candidateSeniority);
+    const roleLevel = SENIORITY_LEVELS.indexOf(role.seniority);
+    const seniorityMatch = candidateLevel >= roleLevel ? 1 : roleLevel - candidateLevel === 1 ? 0.5 : 0;
+
+    return {
+        role_title: role.title,
+        seniority: role.seniority,
+        candidate_seniority: candidateSeniority,
+        score: Math.round(coverage * 80 + seniorityMatch * 20),
+        matched_skills: matched,
+        missing_skills: missing,
+    };
+}
@@ -71,7 +71,24 @@ export interface SanitizedProfile {
         updated_at: string;
         has_readme: boolean;
         readme_excerpt: string | null;
+        signals: {
+            has_tests: boolean;
+            has_ci: boolean;
+            has_docker: boolean;
+            typescript: boolean;
+            dependency_count: number;
+            frameworks: string[];
+            manifests: string[];
+        } | null; // null = file tree not inspected
     }[];
+    activity: {
+        total_commits: number;
+        active_weeks: number;
+        recent_active_weeks: number; // Of the last 12
+        longest_streak_weeks: number;
+        current_streak_weeks: number;
+        weekly_commits: number[]; // Last 52 weeks, oldest first
+    } | null; // null = commit history unavailable
 }
 
 /**
@@ -110,6 +127,27 @@ export function sanitizeProfileForAI(
             readme_excerpt: repo.readme_content
                 ? cleanReadme(repo.readme_content)
                 : null,
+            signals: repo.insights
+                ? {
+                    has_tests: repo.insights.has_tests,
+                    has_ci: repo.insights.has_ci,
+                    has_docker: repo.insights.has_docker,
+                    typescript: repo.insights.has_typescript,
+                    dependency_count: repo.insights.dependency_count,
+                    frameworks: repo.insights.frameworks,
+                    manifests: repo.insights.manifests,
+                }
+                : null,
         })),
+        activity: profileData.activity
+            ? {
+                total_commits: profileData.activity.total_commits,
+                active_weeks: profileData.activity.consistency.active_weeks,
+                recent_active_weeks: profileData.activity.consistency.recent_active_weeks,
+                longest_streak_weeks: profileData.activity.consistency.longest_streak_weeks,
+                current_streak_weeks: profileData.activity.consistency.current_streak_weeks,
+                weekly_commits: profileData.activity.weekly_commits,
+            }
+            : null,
     };
 }
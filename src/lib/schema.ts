@@ -0,0 +1,151 @@
+import { validateScoreBreakdown } from "./scoring";
+import type { AnalysisResult, DimensionKey } from "./types";
+
+// ============================================
+// Runtime Schemas — AI output & AnalysisResult
+// ============================================
+// Hand-rolled validators that return every problem at once, so the
+// full list can be sent back to the model in a repair prompt.
+
+export const DIMENSION_KEYS: DimensionKey[] = [
+    "documentation",
+    "code_structure",
+    "consistency",
+    "impact",
+    "technical_depth",
+];
+
+const VERDICTS: AnalysisResult["recruiter_verdict"][] = ["Strong Hire", "Interview", "Pass"];
+
+// --- LIMITS ---
+const SUMMARY_LENGTH = { min: 20, max: 1200 };
+const COMMENT_LENGTH = { min: 5, max: 300 };
+const FEEDBACK_ITEM_LENGTH = { min: 10, max: 300 };
+const FEEDBACK_COUNT = { min: 1, max: 6 };
+
+/** Commentary the model is asked to return: no numbers. */
+export interface AICommentary {
+    summary: string;
+    dimensions: Record<DimensionKey, { comment: string }>;
+    actionable_feedback: string[];
+}
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; errors: string[] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkString(
+    value: unknown,
+    path: string,
+    { min, max }: { min: number; max: number },
+    errors: string[]
+): void {
+    if (typeof value !== "string") {
+        errors.push(`${path} must be a string`);
+    } else if (value.trim().length < min) {
+        errors.push(`${path} must be at least ${min} characters`);
+    } else if (value.length > max) {
+        errors.push(`${path} must be at most ${max} characters (got ${value.length})`);
+    }
+}
+
+function checkInteger(value: unknown, path: string, min: number, max: number, errors: string[]): void {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+        errors.push(`${path} must be an integer from ${min} to ${max}`);
+    }
+}
+
+function checkFeedback(value: unknown, errors: string[]): void {
+    if (!Array.isArray(value)) {
+        errors.push("actionable_feedback must be an array of strings");
+        return;
+    }
+    if (value.length < FEEDBACK_COUNT.min || value.length > FEEDBACK_COUNT.max) {
+        errors.push(`actionable_feedback must have ${FEEDBACK_COUNT.min}-${FEEDBACK_COUNT.max} items (got ${value.length})`);
+    }
+    value.forEach((item, i) => checkString(item, `actionable_feedback[${i}]`, FEEDBACK_ITEM_LENGTH, errors));
+}
+
+/**
+ * Validates the model's commentary JSON (already parsed).
+ */
+export function validateCommentary(value: unknown): ValidationResult<AICommentary> {
+    const errors: string[] = [];
+
+    if (!isObject(value)) {
+        return { ok: false, errors: ["Response must be a JSON object"] };
+    }
+
+    checkString(value.summary, "summary", SUMMARY_LENGTH, errors);
+
+    if (!isObject(value.dimensions)) {
+        errors.push(`dimensions must be an object with keys: ${DIMENSION_KEYS.join(", ")}`);
+    } else {
+        const dims = value.dimensions;
+        for (const key of DIMENSION_KEYS) {
+            const dim = dims[key];
+            if (!isObject(dim)) {
+                errors.push(`dimensions.${key} is missing`);
+            } else {
+                checkString(dim.comment, `dimensions.${key}.comment`, COMMENT_LENGTH, errors);
+            }
+        }
+    }
+
+    checkFeedback(value.actionable_feedback, errors);
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: value as unknown as AICommentary };
+}
+
+/**
+ * Validates a complete AnalysisResult before it reaches the cache or UI.
+ * Also reconciles the score breakdown, when present.
+ */
+export function validateAnalysisResult(value: unknown): ValidationResult<AnalysisResult> {
+    const errors: string[] = [];
+
+    if (!isObject(value)) {
+        return { ok: false, errors: ["AnalysisResult must be an object"] };
+    }
+
+    checkInteger(value.total_score, "total_score", 0, 100, errors);
+    checkString(value.summary, "summary", SUMMARY_LENGTH, errors);
+
+    if (!isObject(value.dimensions)) {
+        errors.push("dimensions must be an object");
+    } else {
+        const dims = value.dimensions;
+        for (const key of DIMENSION_KEYS) {
+            const dim = dims[key];
+            if (!isObject(dim)) {
+                errors.push(`dimensions.${key} is missing`);
+                continue;
+            }
+            checkInteger(dim.score, `dimensions.${key}.score`, 0, 10, errors);
+            checkString(dim.comment, `dimensions.${key}.comment`, COMMENT_LENGTH, errors);
+        }
+    }
+
+    if (!VERDICTS.includes(value.recruiter_verdict as AnalysisResult["recruiter_verdict"])) {
+        errors.push(`recruiter_verdict must be one of: ${VERDICTS.join(", ")}`);
+    }
+
+    checkFeedback(value.actionable_feedback, errors);
+
+    if (value.score_breakdown !== undefined && typeof value.total_score === "number") {
+        const breakdown = value.score_breakdown as AnalysisResult["score_breakdown"];
+        if (!isObject(breakdown)) {
+            errors.push("score_breakdown must be an object");
+        } else if (![breakdown.bonuses, breakdown.penalties, breakdown.caps].every(Array.isArray)) {
+            errors.push("score_breakdown bonuses, penalties and caps must be arrays");
+        } else {
+            errors.push(...validateScoreBreakdown(breakdown, value.total_score).map((e) => `score_breakdown: ${e}`));
+        }
+    }
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: value as unknown as AnalysisResult };
+}
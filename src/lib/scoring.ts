@@ -0,0 +1,364 @@
+import { commitsInLastDays } from "./activity";
+import type {
+    CommitActivity,
+    DimensionKey,
+    GitHubProfileData,
+    GitHubRepo,
+    ProfileType,
+    RepoTier,
+    ScoreAdjustment,
+    ScoreBreakdown,
+    ScoreCap,
+    ScoreCard,
+} from "./types";
+
+// ============================================
+// Rule-Based Scoring Engine
+// ============================================
+// Implements the scoring algorithm (base → bonuses → penalties → caps)
+// as plain TypeScript so the same profile always gets the same score.
+// The LLM only writes commentary around these numbers.
+
+// --- CONFIG ---
+const BASE_SCORE: Record<ProfileType, number> = { student: 60, professional: 80 };
+const MAX_SCORE: Record<ProfileType, number> = { student: 85, professional: 100 };
+const STUDENT_HARD_CAP = 65;        // Students with < 2 Tier 3 repos
+const STAR_BONUS_THRESHOLD = 50;    // Stars needed for the "proof of impact" bonus
+const ACTIVE_WINDOW_DAYS = 7;
+const STALE_AFTER_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STUDENT_PATTERN =
+    /\b(student|undergrad|undergraduate|university|college|b\.?tech|b\.?e\b|b\.?sc|m\.?tech|bootcamp|aspiring|learning|fresher|junior|intern(ship)?)\b/i;
+const FOUNDER_PATTERN =
+    /\b(founder|co-?founder|ceo|cto|devrel|developer advocate|maintainer)\b/i;
+
+/** Tutorial-grade project names/descriptions that never count as complex work. */
+const TRIVIAL_PATTERN =
+    /\b(calculator|to-?do|todo-?list|tic-?tac-?toe|weather|clone|portfolio|landing-?page|hello-?world|practice|tutorial|exercises?|assignment|homework|html|css)\b/i;
+
+/** Evidence of "advanced tech" (STEP 2) in topics, names, descriptions and READMEs. */
+const ADVANCED_TECH: { label: string; pattern: RegExp }[] = [
+    { label: "Docker", pattern: /\b(docker|dockerfile|docker-compose|container(ized|s)?)\b/i },
+    { label: "Kubernetes", pattern: /\b(kubernetes|k8s|helm)\b/i },
+    { label: "AWS", pattern: /\b(aws|amazon web services|lambda|s3|ec2|cloudformation)\b/i },
+    { label: "GraphQL", pattern: /\bgraphql\b/i },
+    { label: "CI/CD", pattern: /\b(ci\/cd|github actions|gitlab ci|circleci|travis|jenkins|continuous integration)\b/i },
+];
+
+const MARKDOWN_HEADING = /^#{1,6}\s+\S/gm;
+const ARCHITECTURE_PATTERN = /\b(architecture|design|diagram|trade-?offs?|how it works)\b/i;
+
+// --- Helpers ---
+
+function repoText(repo: GitHubRepo): string {
+    return [repo.name, repo.description ?? "", repo.topics.join(" "), repo.readme_content ?? ""].join("\n");
+}
+
+function daysBetween(fromIso: string, to: number): number {
+    const from = Date.parse(fromIso);
+    if (Number.isNaN(from)) return Infinity;
+    return (to - from) / DAY_MS;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Advanced tech mentioned in the repo's text, plus what its file tree
+ * proves (a Dockerfile or CI workflow counts even if the README is silent).
+ */
+function detectAdvancedTech(repo: GitHubRepo): string[] {
+    const text = repoText(repo);
+    const tech = new Set(ADVANCED_TECH.filter(({ pattern }) => pattern.test(text)).map(({ label }) => label));
+    if (repo.insights?.has_docker) tech.add("Docker");
+    if (repo.insights?.has_ci) tech.add("CI/CD");
+    return [...tech];
+}
+
+/**
+ * A README is "strong" if it goes beyond install steps:
+ * several sections, or an explicit architecture/design discussion.
+ */
+function hasStrongReadme(repo: GitHubRepo): boolean {
+    const readme = repo.readme_content;
+    if (!readme) return false;
+    const headings = readme.match(MARKDOWN_HEADING)?.length ?? 0;
+    return (readme.length >= 800 && headings >= 3) || ARCHITECTURE_PATTERN.test(readme);
+}
+
+/**
+ * Classifies a repo into complexity tiers:
+ * - Tier 1: tutorial-grade (calculators, to-dos, plain HTML) or empty shells
+ * - Tier 3: proven complexity (advanced tech, real traction, or a deployed,
+ *   well-documented project)
+ * - Tier 2: everything in between
+ */
+export function classifyRepoTier(repo: GitHubRepo): RepoTier {
+    const advanced = detectAdvancedTech(repo).length > 0;
+    const trivial = TRIVIAL_PATTERN.test(`${repo.name} ${repo.description ?? ""}`);
+
+    if (advanced || repo.stargazers_count >= 10) return 3;
+    if (trivial || (!repo.readme_content && !repo.description)) return 1;
+    if (repo.homepage && hasStrongReadme(repo)) return 3;
+    return 2;
+}
+
+export function detectProfileType(bio: string | null): ProfileType {
+    return bio && STUDENT_PATTERN.test(bio) ? "student" : "professional";
+}
+
+// --- Dimension Scores (0-10) ---
+
+function scoreDocumentation(repos: GitHubRepo[]): number {
+    if (repos.length === 0) return 0;
+    const withReadme = repos.filter((r) => r.readme_content).length;
+    const strong = repos.filter(hasStrongReadme).length;
+    return clamp(Math.round((withReadme / repos.length) * 4 + (strong / repos.length) * 6), 0, 10);
+}
+
+function scoreCodeStructure(repos: GitHubRepo[]): number {
+    if (repos.length === 0) return 0;
+    const points = repos.reduce(
+        (sum, r) =>
+            sum +
+            (r.description ? 1 : 0) +
+            (r.topics.length > 0 ? 1 : 0) +
+            (r.license ? 1 : 0) +
+            (r.fork ? 0 : 1) +
+            (classifyRepoTier(r) - 1) +
+            (r.insights?.has_tests ? 1 : 0) +
+            (r.insights?.has_ci ? 1 : 0),
+        0
+    );
+    // Max 8 points per repo
+    return clamp(Math.round((points / (repos.length * 8)) * 10), 0, 10);
+}
+
+/**
+ * Uses the commit-history metric when available; otherwise falls back
+ * to how recently each repo was pushed.
+ */
+function scoreConsistency(repos: GitHubRepo[], activity: CommitActivity | null, now: number): number {
+    if (activity) return activity.consistency.score;
+    if (repos.length === 0) return 0;
+    const points = repos.reduce((sum, r) => {
+        const age = daysBetween(r.pushed_at, now);
+        if (age <= 30) return sum + 10;
+        if (age <= 90) return sum + 7;
+        if (age <= STALE_AFTER_DAYS) return sum + 4;
+        if (age <= 365) return sum + 2;
+        return sum;
+    }, 0);
+    return clamp(Math.round(points / repos.length), 0, 10);
+}
+
+function scoreImpact(repos: GitHubRepo[]): number {
+    const stars = repos.reduce((sum, r) => sum + r.stargazers_count, 0);
+    const forks = repos.reduce((sum, r) => sum + r.forks_count, 0);
+    const deployed = repos.filter((r) => r.homepage || r.has_pages).length;
+    const traction = Math.log10(1 + stars + forks * 2) * 3; // 10 stars ≈ 3, 100 ≈ 6, 1000 ≈ 9
+    return clamp(Math.round(traction + Math.min(deployed, 3)), 0, 10);
+}
+
+function scoreTechnicalDepth(repos: GitHubRepo[]): number {
+    const tech = new Set(repos.flatMap(detectAdvancedTech));
+    const languages = new Set(repos.map((r) => r.language).filter(Boolean));
+    const frameworks = new Set(repos.flatMap((r) => r.insights?.frameworks ?? []));
+    const tier3 = repos.filter((r) => classifyRepoTier(r) === 3).length;
+    return clamp(tech.size * 2 + Math.min(languages.size, 3) + Math.min(frameworks.size, 2) + tier3, 0, 10);
+}
+
+/**
+ * Runs the scoring algorithm over the fetched profile.
+ *
+ * Pipeline:
+ * 1. Base score from profile type (student vs professional)
+ * 2. Bonuses (proof of engineering)
+ * 3. Penalties (one-hit wonder, weak docs, stale repos)
+ * 4. Caps (profile max, student hard cap)
+ *
+ * "Now" is taken from `fetchedAt` so re-scoring the same snapshot is stable.
+ */
+export function scoreProfile(profileData: GitHubProfileData): ScoreCard {
+    const { user, repos } = profileData;
+    const activity = profileData.activity ?? null;
+    const now = Date.parse(profileData.fetchedAt) || Date.now();
+
+    const profileType = detectProfileType(user.bio);
+    const isFounder = !!user.bio && FOUNDER_PATTERN.test(user.bio);
+    const base = BASE_SCORE[profileType];
+    const tiers = repos.map(classifyRepoTier);
+    const tier3Repos = repos.filter((_, i) => tiers[i] === 3);
+
+    const bonuses: ScoreAdjustment[] = [];
+    const penalties: ScoreAdjustment[] = [];
+
+    // --- STEP 2: Bonuses ---
+    const starred = repos.filter((r) => r.stargazers_count > STAR_BONUS_THRESHOLD);
+    const deployed = repos.filter((r, i) => r.homepage && tiers[i] > 1);
+    if (starred.length > 0 || deployed.length > 0) {
+        bonuses.push({
+            rule: "proven_impact",
+            label: starred.length > 0
+                ? `Repo with >${STAR_BONUS_THRESHOLD} stars`
+                : "Deployed production app",
+            points: 10,
+            evidence: starred.length > 0
+                ? starred.map((r) => `${r.name} (★${r.stargazers_count})`)
+                : deployed.map((r) => `${r.name} (${r.homepage})`),
+        });
+    }
+
+    const techByRepo = repos
+        .map((r) => ({ name: r.name, tech: detectAdvancedTech(r) }))
+        .filter(({ tech }) => tech.length > 0);
+    if (techByRepo.length > 0) {
+        const advancedTech = new Set(techByRepo.flatMap(({ tech }) => tech));
+        bonuses.push({
+            rule: "advanced_tech",
+            label: `Advanced tech: ${[...advancedTech].join(", ")}`,
+            points: 10,
+            evidence: techByRepo.map(({ name, tech }) => `${name} (${tech.join(", ")})`),
+        });
+    }
+
+    // Authored commits when the history is available: a push by someone else doesn't count
+    const recentCommits = activity ? commitsInLastDays(activity, ACTIVE_WINDOW_DAYS) : 0;
+    const recent = activity ? [] : repos.filter((r) => daysBetween(r.pushed_at, now) <= ACTIVE_WINDOW_DAYS);
+    if (recentCommits > 0 || recent.length > 0) {
+        bonuses.push({
+            rule: "recent_activity",
+            label: `Active in the last ${ACTIVE_WINDOW_DAYS} days`,
+            points: 5,
+            evidence: activity
+                ? [
+                    `${recentCommits} authored commits in the last ${ACTIVE_WINDOW_DAYS} days`,
+                    `${activity.consistency.active_weeks}/52 active weeks`,
+                ]
+                : recent.map((r) => `${r.name} (pushed ${r.pushed_at.slice(0, 10)})`),
+        });
+    }
+
+    // --- STEP 3: Penalties ---
+    const tier1Count = tiers.filter((t) => t === 1).length;
+    if (tier3Repos.length === 1 && repos.length > 1 && tier1Count === repos.length - 1) {
+        penalties.push({
+            rule: "one_hit_wonder",
+            label: "Only one complex repo; the rest are tutorial-grade",
+            points: -15,
+            evidence: [`${tier3Repos[0].name} (Tier 3)`, `${tier1Count} Tier 1 repos`],
+        });
+    }
+
+    const weakDocs = repos.filter((r) => !hasStrongReadme(r));
+    if (repos.length > 0 && weakDocs.length > repos.length / 2) {
+        penalties.push({
+            rule: "weak_documentation",
+            label: "Most READMEs lack architecture or design detail",
+            points: -10,
+            evidence: weakDocs.map((r) => `${r.name} (${r.readme_content ? "thin README" : "no README"})`),
+        });
+    }
+
+    const stale = repos.filter((r) => daysBetween(r.pushed_at, now) > STALE_AFTER_DAYS);
+    if (!isFounder && repos.length > 0 && stale.length > repos.length / 2) {
+        penalties.push({
+            rule: "stale_repos",
+            label: "Over half of repos untouched in 6 months",
+            points: -10,
+            evidence: stale.map((r) => `${r.name} (pushed ${r.pushed_at.slice(0, 10)})`),
+        });
+    }
+
+    // --- STEP 4: Final calculation + caps ---
+    const raw_score = [...bonuses, ...penalties].reduce((sum, a) => sum + a.points, base);
+    const caps: ScoreCap[] = [];
+    let final_score = clamp(raw_score, 0, 100);
+
+    if (final_score > MAX_SCORE[profileType]) {
+        final_score = MAX_SCORE[profileType];
+        caps.push({
+            rule: "profile_max",
+            label: `Maximum for ${profileType} profiles`,
+            limit: MAX_SCORE[profileType],
+            evidence: [],
+        });
+    }
+    if (profileType === "student" && tier3Repos.length < 2 && final_score > STUDENT_HARD_CAP) {
+        final_score = STUDENT_HARD_CAP;
+        caps.push({
+            rule: "student_hard_cap",
+            label: "Student with fewer than 2 complex (Tier 3) repos",
+            limit: STUDENT_HARD_CAP,
+            evidence: tier3Repos.map((r) => `${r.name} (Tier 3)`),
+        });
+    }
+
+    const breakdown: ScoreBreakdown = {
+        profile_type: profileType,
+        base,
+        base_reason: profileType === "student"
+            ? `Student/Junior profile (bio: "${user.bio}")`
+            : "Professional profile (no student/junior signals in bio)",
+        bonuses,
+        penalties,
+        raw_score,
+        caps,
+        final_score,
+    };
+
+    const dimensions: Record<DimensionKey, number> = {
+        documentation: scoreDocumentation(repos),
+        code_structure: scoreCodeStructure(repos),
+        consistency: scoreConsistency(repos, activity, now),
+        impact: scoreImpact(repos),
+        technical_depth: scoreTechnicalDepth(repos),
+    };
+
+    return {
+        breakdown,
+        total_score: final_score,
+        dimensions,
+        recruiter_verdict: final_score >= 70 ? "Strong Hire" : final_score >= 45 ? "Interview" : "Pass",
+    };
+}
+
+/**
+ * Checks that a breakdown is internally consistent and reconciles with
+ * the reported total. Returns a list of problems (empty = valid).
+ */
+export function validateScoreBreakdown(
+    breakdown: ScoreBreakdown,
+    totalScore: number
+): string[] {
+    const errors: string[] = [];
+
+    for (const bonus of breakdown.bonuses) {
+        if (bonus.points <= 0) errors.push(`Bonus "${bonus.rule}" must be positive`);
+    }
+    for (const penalty of breakdown.penalties) {
+        if (penalty.points >= 0) errors.push(`Penalty "${penalty.rule}" must be negative`);
+    }
+
+    const expectedRaw = [...breakdown.bonuses, ...breakdown.penalties]
+        .reduce((sum, a) => sum + a.points, breakdown.base);
+    if (expectedRaw !== breakdown.raw_score) {
+        errors.push(`raw_score ${breakdown.raw_score} != base + adjustments (${expectedRaw})`);
+    }
+
+    const expectedFinal = breakdown.caps.reduce(
+        (score, cap) => Math.min(score, cap.limit),
+        clamp(breakdown.raw_score, 0, 100)
+    );
+    if (expectedFinal !== breakdown.final_score) {
+        errors.push(`final_score ${breakdown.final_score} != capped raw score (${expectedFinal})`);
+    }
+    if (breakdown.final_score !== totalScore) {
+        errors.push(`final_score ${breakdown.final_score} != total_score ${totalScore}`);
+    }
+
+    return errors;
+}
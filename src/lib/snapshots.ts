@@ -0,0 +1,110 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { env } from "./env";
+import type { AnalysisResponse, ReportSnapshot, RoleProfile, SnapshotStatus } from "./types";
+
+// ============================================
+// Shared Report Snapshots (file-backed)
+// ============================================
+// "Save & share" freezes an AnalysisResponse under an unguessable id in
+// DATA_DIR/snapshots, so /r/{id} shows the same report forever (or until
+// it expires or is revoked), no matter how the profile changes.
+// Revoking needs the token returned at creation; only its hash is stored.
+
+const SNAPSHOT_DIR = path.resolve(env.DATA_DIR, "snapshots");
+
+// --- CONFIG ---
+const ID_BYTES = 16;      // 128 bits → 22 base64url characters
+const TOKEN_BYTES = 24;
+export const SHARE_EXPIRY_DAYS = [1, 7, 30, 90]; // Offered in the UI, besides "never"
+const SNAPSHOT_ID = /^[A-Za-z0-9_-]{22}$/;
+
+function snapshotFile(id: string): string {
+    // Ids are checked against SNAPSHOT_ID first, so they are safe file names
+    return path.join(SNAPSHOT_DIR, `${id}.json`);
+}
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+async function writeSnapshot(snapshot: ReportSnapshot): Promise<void> {
+    // Write-then-rename so a crash never leaves a half-written snapshot
+    await fs.mkdir(SNAPSHOT_DIR, { recursive: true });
+    const tmp = `${snapshotFile(snapshot.id)}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(snapshot), "utf-8");
+    await fs.rename(tmp, snapshotFile(snapshot.id));
+}
+
+/**
+ * Saves a successful analysis. `expiresInDays` null = never expires.
+ * Returns the snapshot and the revoke token (shown to the creator once).
+ */
+export async function saveSnapshot(
+    response: AnalysisResponse,
+    role: RoleProfile | null,
+    repos: string[],
+    expiresInDays: number | null
+): Promise<{ snapshot: ReportSnapshot; revokeToken: string }> {
+    const now = Date.now();
+    const revokeToken = randomBytes(TOKEN_BYTES).toString("base64url");
+    const snapshot: ReportSnapshot = {
+        id: randomBytes(ID_BYTES).toString("base64url"),
+        createdAt: new Date(now).toISOString(),
+        expiresAt: expiresInDays ? new Date(now + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null,
+        revokedAt: null,
+        revokeTokenHash: hashToken(revokeToken),
+        role,
+        repos,
+        response,
+    };
+    await writeSnapshot(snapshot);
+    console.log(`[Snapshot] SAVED ${snapshot.id} for: ${response.profileData?.user.login}`);
+    return { snapshot, revokeToken };
+}
+
+/** The stored snapshot (including expired and revoked ones), or null. */
+async function getSnapshot(id: string): Promise<ReportSnapshot | null> {
+    if (!SNAPSHOT_ID.test(id)) return null;
+    try {
+        return JSON.parse(await fs.readFile(snapshotFile(id), "utf-8")) as ReportSnapshot;
+    } catch (error) {
+        const err = error as { code?: string };
+        if (err.code !== "ENOENT") {
+            console.warn(`[Snapshot] Failed to read ${id}:`, error);
+        }
+        return null;
+    }
+}
+
+function snapshotStatus(snapshot: ReportSnapshot, now: number): SnapshotStatus {
+    if (snapshot.revokedAt) return "revoked";
+    if (snapshot.expiresAt && Date.parse(snapshot.expiresAt) <= now) return "expired";
+    return "active";
+}
+
+/** A snapshot with its current status, or null if it never existed. */
+export async function loadSnapshot(id: string): Promise<{ snapshot: ReportSnapshot; status: SnapshotStatus } | null> {
+    const snapshot = await getSnapshot(id);
+    return snapshot && { snapshot, status: snapshotStatus(snapshot, Date.now()) };
+}
+
+/**
+ * Revokes a snapshot and deletes its report data, keeping a tombstone so
+ * the link says "revoked" instead of "not found". False for a wrong token.
+ */
+export async function revokeSnapshot(id: string, token: string): Promise<boolean> {
+    const snapshot = await getSnapshot(id);
+    if (!snapshot) return false;
+
+    const expected = Buffer.from(snapshot.revokeTokenHash, "hex");
+    const actual = Buffer.from(hashToken(token), "hex");
+    if (!timingSafeEqual(expected, actual)) return false;
+
+    if (!snapshot.revokedAt) {
+        await writeSnapshot({ ...snapshot, revokedAt: new Date().toISOString(), response: null });
+        console.log(`[Snapshot] REVOKED ${id}`);
+    }
+    return true;
+}
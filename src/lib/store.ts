@@ -0,0 +1,208 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { env, type StoreKind } from "./env";
+import { createRedisStore } from "./redis-store";
+
+// ============================================
+// Key-Value Stores (server-only)
+// ============================================
+// One interface for the state that has to be shared between instances:
+// the analysis cache and the rate limiter. CACHE_STORE picks the backend:
+//   memory — per process, LRU-bounded (default; fine for one instance)
+//   file   — JSON files under DATA_DIR/cache, shared by processes on one host
+//   redis  — any Redis-protocol server (REDIS_URL), shared by every instance
+// Values must be JSON-serializable. Every entry has a TTL; the memory and
+// file stores also evict least recently used entries past `maxEntries`
+// (Redis evicts by its own maxmemory-policy).
+
+export interface KeyValueStore {
+    readonly kind: StoreKind;
+    get<T>(key: string): Promise<T | null>;
+    set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+    /**
+     * Adds `amount` to a numeric counter (missing = 0) and returns the new
+     * value. The counter expires `ttlMs` after its last increment.
+     */
+    increment(key: string, amount: number, ttlMs: number): Promise<number>;
+}
+
+export interface StoreOptions {
+    maxEntries: number; // LRU bound (memory and file stores)
+}
+
+// --- MEMORY ---
+
+interface MemoryEntry {
+    value: unknown;
+    expiresAt: number;
+}
+
+function createMemoryStore({ maxEntries }: StoreOptions): KeyValueStore {
+    // Map keeps insertion order: re-inserting on access makes the first key the least recently used
+    const entries = new Map<string, MemoryEntry>();
+
+    const read = (key: string): MemoryEntry | null => {
+        const entry = entries.get(key);
+        if (!entry) return null;
+        entries.delete(key);
+        if (entry.expiresAt <= Date.now()) return null;
+        entries.set(key, entry);
+        return entry;
+    };
+
+    const write = (key: string, value: unknown, ttlMs: number): void => {
+        entries.delete(key);
+        entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+        while (entries.size > maxEntries) {
+            entries.delete(entries.keys().next().value!);
+        }
+    };
+
+    return {
+        kind: "memory",
+        async get<T>(key: string) {
+            return (read(key)?.value as T | undefined) ?? null;
+        },
+        async set<T>(key: string, value: T, ttlMs: number) {
+            write(key, value, ttlMs);
+        },
+        async delete(key: string) {
+            entries.delete(key);
+        },
+        async increment(key: string, amount: number, ttlMs: number) {
+            const value = ((read(key)?.value as number | undefined) ?? 0) + amount;
+            write(key, value, ttlMs);
+            return value;
+        },
+    };
+}
+
+// --- FILE ---
+
+interface FileEntry {
+    key: string;
+    value: unknown;
+    expiresAt: number;
+}
+
+const PRUNE_EVERY_WRITES = 50; // Directory scans are expensive; don't do one per write
+
+function createFileStore(namespace: string, { maxEntries }: StoreOptions): KeyValueStore {
+    const dir = path.resolve(env.DATA_DIR, "cache", namespace);
+    // Serializes read-modify-write per key within this process
+    const locks = new Map<string, Promise<unknown>>();
+    let writesSincePrune = 0;
+
+    // Keys are hashed: they contain characters that aren't safe in file names
+    const fileFor = (key: string) => path.join(dir, `${createHash("sha256").update(key).digest("hex")}.json`);
+
+    const read = async (key: string): Promise<FileEntry | null> => {
+        const file = fileFor(key);
+        let entry: FileEntry;
+        try {
+            entry = JSON.parse(await fs.readFile(file, "utf-8")) as FileEntry;
+        } catch (error) {
+            if ((error as { code?: string }).code !== "ENOENT") {
+                console.warn(`[Store] Unreadable cache file for ${key}, dropping it:`, error);
+                await fs.rm(file, { force: true });
+            }
+            return null;
+        }
+        if (entry.expiresAt <= Date.now()) {
+            await fs.rm(file, { force: true });
+            return null;
+        }
+        // The modification time doubles as the LRU timestamp
+        const now = new Date();
+        await fs.utimes(file, now, now).catch(() => {});
+        return entry;
+    };
+
+    // Drops expired files, then the least recently used ones past maxEntries
+    const prune = async (): Promise<void> => {
+        const now = Date.now();
+        const files = await Promise.all(
+            (await fs.readdir(dir)).filter((name) => name.endsWith(".json")).map(async (name) => {
+                const file = path.join(dir, name);
+                const stat = await fs.stat(file).catch(() => null);
+                return { file, usedAt: stat?.mtimeMs ?? 0 };
+            })
+        );
+        files.sort((a, b) => b.usedAt - a.usedAt);
+        const expired = await Promise.all(files.map(async ({ file }) => {
+            try {
+                return (JSON.parse(await fs.readFile(file, "utf-8")) as FileEntry).expiresAt <= now;
+            } catch {
+                return true;
+            }
+        }));
+        const live = files.filter((_, i) => !expired[i]);
+        const doomed = [...files.filter((_, i) => expired[i]), ...live.slice(maxEntries)];
+        await Promise.all(doomed.map(({ file }) => fs.rm(file, { force: true })));
+        if (doomed.length > 0) console.log(`[Store] Pruned ${doomed.length} ${namespace} entries`);
+    };
+
+    const write = async (key: string, value: unknown, ttlMs: number): Promise<void> => {
+        // Write-then-rename so readers never see a half-written file
+        await fs.mkdir(dir, { recursive: true });
+        const file = fileFor(key);
+        const tmp = `${file}.${process.pid}.tmp`;
+        const entry: FileEntry = { key, value, expiresAt: Date.now() + ttlMs };
+        await fs.writeFile(tmp, JSON.stringify(entry), "utf-8");
+        await fs.rename(tmp, file);
+
+        if (++writesSincePrune >= PRUNE_EVERY_WRITES) {
+            writesSincePrune = 0;
+            await prune().catch((error) => console.warn(`[Store] Prune of ${namespace} failed:`, error));
+        }
+    };
+
+    const withLock = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+        const run = (locks.get(key) ?? Promise.resolve()).then(task, task);
+        const settled = run.catch(() => {});
+        locks.set(key, settled);
+        void settled.then(() => {
+            if (locks.get(key) === settled) locks.delete(key);
+        });
+        return run;
+    };
+
+    return {
+        kind: "file",
+        async get<T>(key: string) {
+            return ((await read(key))?.value as T | undefined) ?? null;
+        },
+        set<T>(key: string, value: T, ttlMs: number) {
+            return withLock(key, () => write(key, value, ttlMs));
+        },
+        delete(key: string) {
+            return withLock(key, () => fs.rm(fileFor(key), { force: true }));
+        },
+        increment(key: string, amount: number, ttlMs: number) {
+            return withLock(key, async () => {
+                const value = (((await read(key))?.value as number | undefined) ?? 0) + amount;
+                await write(key, value, ttlMs);
+                return value;
+            });
+        },
+    };
+}
+
+// --- FACTORY ---
+
+/**
+ * A store for one kind of data. `namespace` keeps keys of different
+ * stores apart (directory for the file store, key prefix for Redis).
+ */
+export function createStore(namespace: string, options: StoreOptions): KeyValueStore {
+    switch (env.CACHE_STORE) {
+        case "file":
+            return createFileStore(namespace, options);
+        case "redis":
+            return createRedisStore(env.REDIS_URL, namespace);
+        case "memory":
+            return createMemoryStore(options);
+    }
+}
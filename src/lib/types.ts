@@ -45,16 +45,83 @@ export interface GitHubRepo {
         spdx_id: string;
     } | null;
     readme_content: string | null; // Raw README.md text
+    insights: RepoInsights | null; // null when the file tree could not be fetched
+}
+
+/** Concrete signals derived from a repo's file tree and manifests. */
+export interface RepoInsights {
+    file_count: number;
+    tree_truncated: boolean; // GitHub caps recursive trees; signals may be incomplete
+    manifests: string[]; // Root manifests found, e.g. "package.json", "go.mod"
+    has_tests: boolean;
+    test_paths: string[]; // Test directories/files that triggered has_tests (sample)
+    has_ci: boolean;
+    ci_workflows: string[]; // Files under .github/workflows (or other CI configs)
+    has_docker: boolean;
+    has_typescript: boolean; // tsconfig.json present
+    dependency_count: number; // Declared deps across all parsed manifests
+    frameworks: string[];
+}
+
+/** Commits authored by the user across the selected repos, over the last year. */
+export interface CommitActivity {
+    since: string; // ISO start of the window (a Sunday, UTC)
+    until: string; // ISO end of the window (fetch time)
+    daily_commits: number[]; // One count per day from `since`, 52 weeks × 7
+    weekly_commits: number[]; // One count per week from `since` (52)
+    total_commits: number;
+    per_repo: Record<string, number>;
+    truncated: boolean; // Page cap hit on at least one repo; counts are a lower bound
+    consistency: ConsistencyMetric;
+}
+
+export interface ConsistencyMetric {
+    active_weeks: number; // Weeks with at least one commit (of 52)
+    recent_active_weeks: number; // Of the last 12 weeks
+    longest_streak_weeks: number;
+    current_streak_weeks: number;
+    score: number; // 0-10
+}
+
+/** Where the analyzed repos came from. */
+export type RepoSource = "ranked" | "pinned";
+
+/** A repo the user could choose to analyze (slim, for the picker). */
+export interface RepoCandidate {
+    name: string;
+    description: string | null;
+    language: string | null;
+    stargazers_count: number;
+    fork: boolean;
+    archived: boolean;
+    pushed_at: string;
+}
+
+export interface RepoSelectionInfo {
+    source: RepoSource | "manual"; // "manual" = repos chosen by the user (URL)
+    pool_size: number; // Owned repos considered
+    pinned: string[]; // Repos kept first (manual pins, then profile pins)
+    requested: string[]; // Manual selection as requested (may include unknown names)
+    candidates: RepoCandidate[]; // Top of the pool plus the analyzed repos, most relevant first
 }
 
 export interface GitHubProfileData {
     user: GitHubUser;
     repos: GitHubRepo[];
+    selection: RepoSelectionInfo;
+    activity: CommitActivity | null; // null when commit history could not be fetched
     fetchedAt: string; // ISO timestamp of when data was fetched
 }
 
 // --- AI Analysis Types ---
 
+export type DimensionKey =
+    | "documentation"
+    | "code_structure"
+    | "consistency"
+    | "impact"
+    | "technical_depth";
+
 export interface DimensionScore {
     score: number; // 0-10
     comment: string;
@@ -73,14 +140,262 @@ export interface AnalysisResult {
     };
     recruiter_verdict: "Strong Hire" | "Interview" | "Pass";
     actionable_feedback: string[];
-    isMockData?: boolean; // true when falling back to demo data
+    score_breakdown?: ScoreBreakdown; // Absent on mock/demo data
+    role_fit?: RoleFit; // Present when analyzed against a role/job description
+    isMockData?: boolean; // true for demo-mode data (never real)
+    isPartial?: boolean; // true when the AI failed: real GitHub data + heuristic-only score
+    partialReason?: string; // User-facing reason the AI commentary is missing
+}
+
+// --- Rule-Based Scoring Types ---
+
+export type ProfileType = "student" | "professional";
+
+export type RepoTier = 1 | 2 | 3; // 1 = tutorial-grade, 3 = proven complexity
+
+export interface ScoreAdjustment {
+    rule: string; // Stable rule id, e.g. "one_hit_wonder"
+    label: string; // Human-readable reason
+    points: number; // Positive = bonus, negative = penalty
+    evidence: string[]; // Repos or facts that triggered the rule
+}
+
+export interface ScoreCap {
+    rule: string;
+    label: string;
+    limit: number; // Score was clamped down to this value
+    evidence: string[];
+}
+
+/** Itemized ledger explaining how total_score was reached. */
+export interface ScoreBreakdown {
+    profile_type: ProfileType;
+    base: number;
+    base_reason: string;
+    bonuses: ScoreAdjustment[];
+    penalties: ScoreAdjustment[];
+    raw_score: number; // base + bonuses + penalties, before caps
+    caps: ScoreCap[]; // Only caps that actually lowered the score
+    final_score: number; // Always equals AnalysisResult.total_score
+}
+
+export interface ScoreCard {
+    breakdown: ScoreBreakdown;
+    total_score: number; // 0-100
+    dimensions: Record<DimensionKey, number>; // 0-10 each
+    recruiter_verdict: AnalysisResult["recruiter_verdict"];
+}
+
+// --- Role Fit Types ---
+
+export type Seniority = "junior" | "mid" | "senior";
+
+/** A saved role profile or one extracted from a pasted job description. */
+export interface RoleProfile {
+    id: string; // Preset id, or "custom" for a parsed job description
+    title: string;
+    seniority: Seniority;
+    skills: string[]; // Required languages, frameworks and tools
+}
+
+export interface SkillMatch {
+    skill: string;
+    evidence: string[]; // e.g. "my-app (language)", "infra (README)"
+}
+
+export interface RoleFit {
+    role_title: string;
+    seniority: Seniority;
+    candidate_seniority?: Seniority; // Estimated from account age, proven repos and activity
+    score: number; // 0-100
+    matched_skills: SkillMatch[];
+    missing_skills: string[];
 }
 
 // --- Server Action Response ---
 
+/** Why an analysis failed; stable for clients, unlike the `error` text. */
+export type AnalysisErrorCode =
+    | "invalid_username"
+    | "rate_limited"        // This app's own per-IP / per-key limit
+    | "user_not_found"
+    | "repos_not_found"     // None of the selected repositories exist
+    | "github_rate_limited" // Every configured GitHub credential is out of quota
+    | "github_auth_invalid"
+    | "ai_not_configured"
+    | "ai_quota_exceeded"   // The AI provider's quota ran out (partial result)
+    | "ai_invalid_output"   // The AI never produced a valid analysis (partial result)
+    | "ai_unavailable"      // The AI provider couldn't be reached (partial result)
+    | "internal";
+
 export interface AnalysisResponse {
     success: boolean;
     data?: AnalysisResult;
     profileData?: GitHubProfileData;
     error?: string;
+    errorCode?: AnalysisErrorCode; // On failure, or why a partial (heuristic-only) result lacks the AI part
+    status?: number; // HTTP status of a failure (the REST API responds with it)
+    retryAt?: string; // ISO timestamp: on a failure or partial result that goes away by itself, when to retry
+    revalidating?: boolean; // Served from an expired cache entry while a background run refreshes it
+}
+
+// --- Analysis Progress (streamed to the loading UI) ---
+
+export type AnalysisProgressEvent =
+    | { type: "start"; username: string }
+    | { type: "cache_hit" }
+    | { type: "profile_fetched"; name: string | null; public_repos: number }
+    | { type: "repos_selected"; repos: string[]; pool_size: number }
+    | { type: "repo_fetched"; repo: string; completed: number; total: number; has_readme: boolean; inspected: boolean }
+    | { type: "activity_fetched"; total_commits: number | null }
+    | { type: "scored"; total_score: number }
+    | { type: "ai_attempt"; attempt: number; max_attempts: number; provider: string; repair: boolean }
+    | { type: "ai_retry"; attempt: number; reason: string; delay_ms: number }
+    | { type: "validation"; attempt: number; ok: boolean; errors: string[] }
+    | { type: "ai_reused"; provider: string } // Payload unchanged: previous commentary reused
+    | { type: "ai_fallback"; reason: string }
+    | { type: "done"; success: boolean; error?: string };
+
+/** Receives pipeline progress; the default is a no-op. */
+export type ProgressReporter = (event: AnalysisProgressEvent) => void;
+
+// --- Analysis History ---
+
+/** One recorded scan; the history file holds one per line. */
+export interface TrendPoint {
+    analyzedAt: string; // ISO timestamp (profileData.fetchedAt)
+    total_score: number; // 0-100
+    dimensions: Record<DimensionKey, number>; // 0-10 each
+    recruiter_verdict: AnalysisResult["recruiter_verdict"];
+}
+
+// --- Batch Analysis ---
+
+export type BatchSource =
+    | { type: "org"; org: string }
+    | { type: "list" }; // Uploaded CSV or pasted usernames
+
+export type BatchEntryStatus = "queued" | "running" | "done" | "failed";
+
+/** One user's row in a batch: a slim summary, the full report stays on /report. */
+export interface BatchEntry {
+    username: string;
+    status: BatchEntryStatus;
+    attempts: number;
+    name?: string | null;
+    avatar_url?: string;
+    total_score?: number; // 0-100
+    dimensions?: Record<DimensionKey, number>; // 0-10 each
+    recruiter_verdict?: AnalysisResult["recruiter_verdict"];
+    isPartial?: boolean; // Heuristic-only (AI unavailable after retries)
+    error?: string;
+}
+
+export interface BatchStartResponse {
+    success: boolean;
+    batchId?: string;
+    skipped?: number; // Uploaded values dropped (invalid, duplicate or over the cap)
+    error?: string;
+}
+
+export interface BatchJob {
+    id: string;
+    source: BatchSource;
+    createdAt: string; // ISO
+    finishedAt: string | null;
+    notice: string | null; // e.g. "Waiting for GitHub rate limit reset at 14:05"
+    entries: BatchEntry[];
+}
+
+// --- REST API (/api/v1) ---
+
+/** One user's result in a POST /api/v1/analysis batch. */
+export interface ApiBatchResult {
+    username: string;
+    status: number; // HTTP status this user would get from GET /api/v1/analysis/{username}
+    response: AnalysisResponse;
+}
+
+export interface ApiBatchResponse {
+    success: boolean; // False only when the request itself was rejected
+    results: ApiBatchResult[];
+    error?: string;
+}
+
+// --- Webhooks ---
+
+export type WebhookEvent = "analysis.completed" | "analysis.failed";
+
+/** A registered webhook as shown to its owner (the secret is never returned). */
+export interface WebhookSubscription {
+    id: string;
+    url: string;
+    usernames: string[] | null; // Lowercase; null = every analysis requested with the owning key
+    createdAt: string; // ISO
+}
+
+/** Summary of a finished analysis; the full report stays on /api/v1/analysis. */
+export interface WebhookAnalysisSummary {
+    login: string;
+    name: string | null;
+    total_score: number; // 0-100
+    recruiter_verdict: AnalysisResult["recruiter_verdict"] | null; // null when heuristic-only
+    dimensions: Record<DimensionKey, number>; // 0-10 each
+    summary: string;
+    isPartial: boolean;
+    fetchedAt: string; // ISO, when the GitHub data was fetched
+}
+
+/** Body POSTed to a webhook URL. */
+export interface WebhookPayload {
+    id: string; // Delivery id, stable across retries
+    event: WebhookEvent;
+    createdAt: string; // ISO
+    username: string;
+    analysis: WebhookAnalysisSummary | null; // Set for analysis.completed
+    error: { message: string; code: AnalysisErrorCode; status: number } | null; // Set for analysis.failed
+}
+
+export interface WebhookDeliveryAttempt {
+    at: string; // ISO
+    statusCode: number | null; // null when the request itself failed
+    error: string | null;
+    durationMs: number;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+    id: string;
+    webhookId: string;
+    event: WebhookEvent;
+    username: string;
+    status: WebhookDeliveryStatus;
+    attempts: WebhookDeliveryAttempt[];
+    nextAttemptAt: string | null; // ISO, while pending
+    createdAt: string; // ISO
+}
+
+// --- Shared Report Snapshots (/r/{id}) ---
+
+/** A saved report. Never changes after saving, except for revocation. */
+export interface ReportSnapshot {
+    id: string; // Unguessable, URL-safe
+    createdAt: string; // ISO
+    expiresAt: string | null; // ISO; null = never
+    revokedAt: string | null; // ISO
+    revokeTokenHash: string; // SHA-256 hex; the token is only shown to its creator
+    role: RoleProfile | null;
+    repos: string[]; // Manual repo selection, empty = automatic
+    response: AnalysisResponse | null; // Dropped when revoked
+}
+
+export type SnapshotStatus = "active" | "expired" | "revoked";
+
+export interface ShareLinkResponse {
+    success: boolean;
+    id?: string;
+    revokeToken?: string; // Only returned here; needed to revoke the link
+    expiresAt?: string | null;
+    error?: string;
 }
@@ -0,0 +1,300 @@
+import { createHmac, randomUUID } from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import type {
+    AnalysisResponse,
+    WebhookAnalysisSummary,
+    WebhookDelivery,
+    WebhookEvent,
+    WebhookPayload,
+    WebhookSubscription,
+} from "./types";
+
+// ============================================
+// Webhook Notifications (server-only, in-memory)
+// ============================================
+// API clients register a URL + secret; when an analysis requested with
+// their API key finishes (or fails), the API route hands the response
+// here and the payload is POSTed with an HMAC signature. Failed deliveries are retried
+// with exponential backoff, and every attempt is kept in a delivery log.
+// Deliveries only go to public addresses: loopback, private, link-local
+// (cloud metadata) and other reserved ranges are refused after DNS
+// resolution, and redirects are never followed.
+// Subscriptions live in memory: they are lost on restart, like batch jobs.
+
+// --- CONFIG ---
+const MAX_ATTEMPTS = 6;                 // First try + 5 retries
+const BASE_BACKOFF_MS = 10 * 1000;      // 10s, 20s, 40s, 80s, 160s
+const DELIVERY_TIMEOUT_MS = 10 * 1000;  // Per attempt
+const MAX_LOGGED_DELIVERIES = 100;      // Per webhook, newest kept
+const MAX_WEBHOOKS_PER_CLIENT = 20;
+export const MIN_SECRET_LENGTH = 16;
+export const MAX_WEBHOOK_USERNAMES = 100;
+
+interface Subscription extends WebhookSubscription {
+    client: string; // API key name that owns it
+    secret: string;
+}
+
+const subscriptions = new Map<string, Subscription>();
+const deliveries = new Map<string, WebhookDelivery[]>(); // webhookId → newest first
+
+// Reserved, private, loopback, link-local and multicast ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+    // IPv4-mapped addresses (::ffff:10.0.0.1) are matched by the IPv4 rules
+    ["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+    return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+/** Why `hostname` may not receive deliveries, or null when it resolves to public addresses only. */
+async function checkWebhookHost(hostname: string): Promise<string | null> {
+    const host = hostname.replace(/^\[|\]$/g, ""); // IPv6 literals come bracketed
+    let addresses: string[];
+    try {
+        addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map((a) => a.address);
+    } catch {
+        return `${host} does not resolve`;
+    }
+    return addresses.some(isBlockedAddress) ? `${host} resolves to a private or reserved address` : null;
+}
+
+/**
+ * dns.lookup that fails on blocked addresses. Used for the connection
+ * itself, so a name can't resolve to a public address when registered
+ * and to an internal one when delivered.
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, "", 0);
+        if (addresses.length === 0 || addresses.some((a) => isBlockedAddress(a.address))) {
+            return callback(new Error(`${hostname} resolves to a private or reserved address`), "", 0);
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+/** POSTs `body` and resolves with the status code. Never follows redirects. */
+async function postWebhook(url: URL, headers: Record<string, string>, body: string): Promise<number> {
+    // IP literals skip DNS lookup entirely, so they are checked here
+    const blocked = net.isIP(url.hostname.replace(/^\[|\]$/g, "")) ? await checkWebhookHost(url.hostname) : null;
+    if (blocked) throw new Error(blocked);
+
+    return new Promise((resolve, reject) => {
+        const request = (url.protocol === "https:" ? https : http).request(url, {
+            method: "POST",
+            headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+            lookup: guardedLookup,
+            timeout: DELIVERY_TIMEOUT_MS,
+        }, (res) => {
+            res.resume(); // The response body is ignored
+            resolve(res.statusCode ?? 0);
+        });
+        request.on("timeout", () => request.destroy(new Error(`Timed out after ${DELIVERY_TIMEOUT_MS}ms`)));
+        request.on("error", reject);
+        request.end(body);
+    });
+}
+
+function toPublic({ id, url, usernames, createdAt }: Subscription): WebhookSubscription {
+    return { id, url, usernames, createdAt };
+}
+
+/** Accepts absolute http(s) URLs only. */
+export function parseWebhookUrl(value: string): URL | null {
+    try {
+        const url = new URL(value);
+        return url.protocol === "https:" || url.protocol === "http:" ? url : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Why `url` can't be a webhook target (it resolves to a loopback, private,
+ * link-local or reserved address), or null when it can.
+ */
+export function checkWebhookUrl(url: URL): Promise<string | null> {
+    return checkWebhookHost(url.hostname);
+}
+
+/**
+ * Registers a webhook for an API client. It only ever receives analyses
+ * requested with that client's key; `usernames` (lowercased) narrows it
+ * to those users, null keeps all of them.
+ * Returns null when the client already has MAX_WEBHOOKS_PER_CLIENT.
+ */
+export function createWebhook(
+    client: string,
+    url: URL,
+    secret: string,
+    usernames: string[] | null
+): WebhookSubscription | null {
+    if (listWebhooks(client).length >= MAX_WEBHOOKS_PER_CLIENT) return null;
+
+    const subscription: Subscription = {
+        id: randomUUID(),
+        client,
+        url: url.toString(),
+        secret,
+        usernames: usernames && [...new Set(usernames.map((u) => u.toLowerCase()))],
+        createdAt: new Date().toISOString(),
+    };
+    subscriptions.set(subscription.id, subscription);
+    console.log(`[Webhook] ${client} registered ${subscription.id} → ${url.host}`);
+    return toPublic(subscription);
+}
+
+export function listWebhooks(client: string): WebhookSubscription[] {
+    return [...subscriptions.values()].filter((s) => s.client === client).map(toPublic);
+}
+
+/** Removes a webhook and its delivery log. False when the client doesn't own it. */
+export function deleteWebhook(client: string, id: string): boolean {
+    const subscription = subscriptions.get(id);
+    if (!subscription || subscription.client !== client) return false;
+    subscriptions.delete(id);
+    deliveries.delete(id);
+    return true;
+}
+
+/** Delivery log of a webhook, newest first. Null when the client doesn't own it. */
+export function getWebhookDeliveries(client: string, id: string): WebhookDelivery[] | null {
+    const subscription = subscriptions.get(id);
+    if (!subscription || subscription.client !== client) return null;
+    return deliveries.get(id) ?? [];
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`.
+ * Receivers recompute it with their secret and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+    const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    return `t=${timestamp},v1=${digest}`;
+}
+
+function summarize(response: AnalysisResponse): WebhookAnalysisSummary | null {
+    const { data, profileData } = response;
+    if (!data || !profileData) return null;
+    return {
+        login: profileData.user.login,
+        name: profileData.user.name,
+        total_score: data.total_score,
+        recruiter_verdict: data.isPartial ? null : data.recruiter_verdict,
+        dimensions: Object.fromEntries(
+            Object.entries(data.dimensions).map(([key, dim]) => [key, dim.score])
+        ) as WebhookAnalysisSummary["dimensions"],
+        summary: data.summary,
+        isPartial: !!data.isPartial,
+        fetchedAt: profileData.fetchedAt,
+    };
+}
+
+function logDelivery(delivery: WebhookDelivery): void {
+    const log = deliveries.get(delivery.webhookId) ?? [];
+    log.unshift(delivery);
+    deliveries.set(delivery.webhookId, log.slice(0, MAX_LOGGED_DELIVERIES));
+}
+
+async function attemptDelivery(subscription: Subscription, delivery: WebhookDelivery, body: string): Promise<void> {
+    // The webhook may have been deleted while a retry was scheduled
+    if (!subscriptions.has(subscription.id)) return;
+
+    const started = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+        statusCode = await postWebhook(new URL(subscription.url), {
+            "Content-Type": "application/json",
+            "User-Agent": "GitHub-Portfolio-Analyzer-Webhooks",
+            "X-Webhook-Id": subscription.id,
+            "X-Webhook-Delivery": delivery.id,
+            "X-Webhook-Event": delivery.event,
+            "X-Webhook-Signature": signWebhookPayload(subscription.secret, body, Math.floor(started / 1000)),
+        }, body);
+        // Redirects count as failures: following them could reach internal hosts
+        if (statusCode < 200 || statusCode >= 300) error = `HTTP ${statusCode}`;
+    } catch (err) {
+        error = err instanceof Error ? err.message : "Request failed";
+    }
+
+    delivery.attempts.push({ at: new Date(started).toISOString(), statusCode, error, durationMs: Date.now() - started });
+
+    if (!error) {
+        delivery.status = "delivered";
+        delivery.nextAttemptAt = null;
+        return;
+    }
+    if (delivery.attempts.length >= MAX_ATTEMPTS) {
+        delivery.status = "failed";
+        delivery.nextAttemptAt = null;
+        console.warn(`[Webhook] Delivery ${delivery.id} to ${subscription.id} failed after ${MAX_ATTEMPTS} attempts: ${error}`);
+        return;
+    }
+
+    const delay = BASE_BACKOFF_MS * Math.pow(2, delivery.attempts.length - 1);
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    console.warn(`[Webhook] Delivery ${delivery.id} attempt ${delivery.attempts.length} failed (${error}), retrying in ${delay}ms`);
+    setTimeout(() => void attemptDelivery(subscription, delivery, body), delay);
+}
+
+/**
+ * Queues a delivery of `response` (fresh or cached, as the caller got it)
+ * to `client`'s webhooks subscribed to `username`. Returns immediately.
+ */
+export function notifyAnalysisComplete(client: string, username: string, response: AnalysisResponse): void {
+    // Demo data isn't a real analysis
+    if (response.data?.isMockData) return;
+    const matching = [...subscriptions.values()].filter(
+        (s) => s.client === client && (!s.usernames || s.usernames.includes(username.toLowerCase()))
+    );
+    if (matching.length === 0) return;
+
+    const event: WebhookEvent = response.success ? "analysis.completed" : "analysis.failed";
+    const analysis = summarize(response);
+    const error = response.success
+        ? null
+        : {
+            message: response.error ?? "Analysis failed.",
+            code: response.errorCode ?? "internal",
+            status: response.status ?? 500,
+        };
+
+    for (const subscription of matching) {
+        const payload: WebhookPayload = {
+            id: randomUUID(),
+            event,
+            createdAt: new Date().toISOString(),
+            username,
+            analysis,
+            error,
+        };
+        const delivery: WebhookDelivery = {
+            id: payload.id,
+            webhookId: subscription.id,
+            event,
+            username,
+            status: "pending",
+            attempts: [],
+            nextAttemptAt: payload.createdAt,
+            createdAt: payload.createdAt,
+        };
+        logDelivery(delivery);
+        void attemptDelivery(subscription, delivery, JSON.stringify(payload));
+    }
+}